@@ -1,6 +1,6 @@
 import { performance } from 'perf_hooks'
 import { readFileSync, writeFileSync } from 'fs'
-import { Sender as SenderJs, Receiver as ReceiverJs, Crc32 as Crc32Js } from '../dist/esm/index.js'
+import { Sender as SenderJs, Receiver as ReceiverJs, ReceiverEvent as ReceiverEventJs, Crc32 as Crc32Js } from '../dist/esm/index.js'
 import { initSync, WasmSender, WasmReceiver } from 'zmodem2-wasm'
 
 function runBenchmarks () {
@@ -131,26 +131,52 @@ function runBenchmarks () {
   console.log('\n--- Receiver Benchmark (Data Processing) ---')
 
   // First, generate some ZMODEM data to feed to receivers
-  // We'll use the JS sender to generate protocol data
+  // We'll record what the JS sender sends to a JS receiver
   console.log('Generating test protocol data...')
   const protocolData = []
   const genSender = new SenderJs()
+  const genReceiver = new ReceiverJs()
   genSender.startFile(fileName, fileSize)
+  genSender.finishSession()
+
+  // Receiver replies the sender could not take yet
+  let backlog = new Uint8Array(0)
+  for (let progressed = true; progressed;) {
+    progressed = false
+    if (backlog.length > 0) {
+      const consumed = genSender.feedIncoming(backlog)
+      backlog = backlog.subarray(consumed)
+      progressed = consumed > 0
+    }
 
-  let genOffset = 0
-  while (genOffset < fileSize) {
     const req = genSender.pollFile()
     if (req) {
       const end = Math.min(req.offset + req.len, fileSize)
-      const chunk = fileData.subarray(req.offset, end)
-      genSender.feedFile(chunk)
-      genOffset = end
+      genSender.feedFile(fileData.subarray(req.offset, end))
+      progressed = true
     }
-    const outgoing = genSender.drainOutgoing()
-    if (outgoing && outgoing.length > 0) {
+
+    let outgoing = genSender.drainOutgoing()
+    if (outgoing.length > 0) {
       protocolData.push(outgoing)
+      progressed = true
+    }
+    while (outgoing.length > 0) {
+      const consumed = genReceiver.feedIncoming(outgoing)
+      outgoing = outgoing.subarray(consumed)
+      let event
+      while ((event = genReceiver.pollEvent()) !== null) {
+        if (event === ReceiverEventJs.FileStart) {
+          genReceiver.acceptFile()
+        }
+      }
+      genReceiver.drainFile()
+      const reply = genReceiver.drainOutgoing()
+      backlog = new Uint8Array([...backlog, ...reply])
+      if (consumed === 0 && reply.length === 0) {
+        break
+      }
     }
-    if (!genSender.pollFile()) break
   }
 
   console.log(`Generated ${protocolData.length} protocol chunks`)
@@ -162,21 +188,32 @@ function runBenchmarks () {
     const receiverJs = new ReceiverJs()
 
     let jsBytesReceived = 0
-    for (const chunk of protocolData) {
-      receiverJs.feedIncoming(chunk)
+    for (let chunk of protocolData) {
+      // The receiver stops reading while a reply is pending, so feed until consumed
+      while (chunk.length > 0) {
+        const consumed = receiverJs.feedIncoming(chunk)
+        chunk = chunk.subarray(consumed)
+
+        // Process events, accepting each offered file
+        let event
+        while ((event = receiverJs.pollEvent()) !== null) {
+          if (event === ReceiverEventJs.FileStart) {
+            receiverJs.acceptFile()
+          }
+        }
 
-      // Drain outgoing (ACKs, etc.)
-      receiverJs.drainOutgoing()
+        // Drain outgoing (ACKs, etc.)
+        const reply = receiverJs.drainOutgoing()
 
-      // Drain file data
-      const fileChunk = receiverJs.drainFile()
-      if (fileChunk && fileChunk.length > 0) {
-        jsBytesReceived += fileChunk.length
-      }
+        // Drain file data
+        const fileChunk = receiverJs.drainFile()
+        if (fileChunk && fileChunk.length > 0) {
+          jsBytesReceived += fileChunk.length
+        }
 
-      // Process events
-      while (receiverJs.pollEvent() !== null) {
-        // Handle events
+        if (consumed === 0 && reply.length === 0 && fileChunk.length === 0) {
+          break
+        }
       }
     }
     results.receiver.js = performance.now() - startJs
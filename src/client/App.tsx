@@ -58,8 +58,10 @@ const App: React.FC = () => {
     }
 
     term.onData((data) => {
-      // If ZMODEM session is active, maybe we should block input?
-      // For now, just send it.
+      // Ctrl+C aborts an active ZMODEM transfer instead of reaching the shell
+      if (data === '\x03' && addon.cancel()) {
+        return
+      }
       if (websocket.readyState === WebSocket.OPEN) {
         websocket.send(data)
       }
@@ -28,6 +28,10 @@ export default class AddonZmodemWasm {
   lastProgressUpdate: number = 0
   readonly PROGRESS_UPDATE_INTERVAL = 500
 
+  // Drives protocol timeouts of the active transfer
+  _watchdog: ReturnType<typeof setInterval> | null = null
+  readonly WATCHDOG_INTERVAL = 1000
+
   // Debug mode - set to true to enable verbose logging
   readonly DEBUG = false
 
@@ -119,21 +123,68 @@ export default class AddonZmodemWasm {
   }
 
   dispose (): void {
-    this.receiver = null
-    this.sender = null
+    this.cancel()
+    if (this._watchdog !== null) {
+      clearInterval(this._watchdog)
+      this._watchdog = null
+    }
     this._fileBuffer = null
     this._disposables.forEach(d => d.dispose())
     this._disposables = []
   }
 
+  /**
+   * Cancel the active transfer, telling the remote sz/rz to abort.
+   * Returns true if a transfer was active.
+   */
+  cancel (): boolean {
+    const machine = this.receiver ?? this.sender
+    if (machine === null) return false
+    machine.cancel()
+    const outgoing = machine.drainOutgoing()
+    if (outgoing.length > 0) {
+      this.socket?.send(outgoing)
+    }
+    this.term?.writeln('\r\nZMODEM: Transfer cancelled.')
+    this.receiver = null
+    this.sender = null
+    this.sendingFile = null
+    this.currentFile = null
+    return true
+  }
+
   zmodemAttach (ctx: { socket: WebSocket, term: Terminal, onDetect?: (type: 'receive' | 'send') => void }): void {
     this.socket = ctx.socket
     this.term = ctx.term
     this.socket.binaryType = 'arraybuffer'
     if (ctx.onDetect != null) this.onDetect = ctx.onDetect
+    this._watchdog ??= setInterval(() => this.tick(), this.WATCHDOG_INTERVAL)
     this.info('zmodemAttach called')
   }
 
+  /**
+   * Let the active transfer resend lost frames, ending it once the remote
+   * stops answering.
+   */
+  tick (): void {
+    try {
+      if (this.sender !== null) {
+        this.sender.tick(Date.now())
+        this.pumpSender()
+      } else if (this.receiver !== null) {
+        this.receiver.tick(Date.now())
+        this.pumpReceiver()
+      }
+    } catch (e) {
+      this.error('Transfer timed out:', e)
+      this.term?.writeln('\r\nZMODEM: ' + String(e))
+      this.receiver = null
+      this.sender = null
+      this.sendingFile = null
+      this.currentFile = null
+    }
+  }
+
   consume (data: ArrayBuffer | string): void {
     try {
       this._consumeInternal(data)
@@ -362,6 +413,16 @@ export default class AddonZmodemWasm {
           const avgSpeed = elapsed > 0 ? Math.round(this.bytesTransferred / elapsed) : 0
           this.term?.writeln(`\r\nZMODEM: File sent. Total: ${this.formatFileSize(this.bytesTransferred)} in ${elapsed.toFixed(1)}s (${this.formatSpeed(avgSpeed)})`)
           this.sender.finishSession()
+        } else if (event === SenderEvent.FileSkipped) {
+          this.term?.writeln('\r\nZMODEM: File skipped by receiver.')
+          this.sender.finishSession()
+        } else if (event === SenderEvent.SessionCancelled) {
+          this.term?.writeln('\r\nZMODEM: Transfer cancelled by remote.')
+          this.sender = null
+          this.sendingFile = null
+          this._fileBuffer = null
+          flushOutgoing()
+          return true
         } else if (event === SenderEvent.SessionComplete) {
           this.term?.writeln('\r\nZMODEM: Session complete.')
           this.sender = null
@@ -504,11 +565,21 @@ export default class AddonZmodemWasm {
           const size = this.receiver.getFileSize()
           this.term?.writeln(`\r\nZMODEM: Receiving ${name} (${this.formatFileSize(size)})...`)
           this.currentFile = { name, size, data: [] }
+          this.receiver.acceptFile()
+          const accepted = this.receiver.drainOutgoing()
+          if (accepted.length > 0) {
+            this.socket?.send(accepted)
+          }
         } else if (event === ReceiverEvent.FileComplete) {
           const elapsed = (Date.now() - this.transferStartTime) / 1000
           const avgSpeed = elapsed > 0 ? Math.round(this.bytesTransferred / elapsed) : 0
           this.term?.writeln(`\r\nZMODEM: File complete. Total: ${this.formatFileSize(this.bytesTransferred)} in ${elapsed.toFixed(1)}s (${this.formatSpeed(avgSpeed)})`)
           this.saveFile()
+        } else if (event === ReceiverEvent.SessionCancelled) {
+          this.term?.writeln('\r\nZMODEM: Transfer cancelled by remote.')
+          this.receiver = null
+          this.currentFile = null
+          return true
         } else if (event === ReceiverEvent.SessionComplete) {
           this.term?.writeln('\r\nZMODEM: Session complete.')
           this.receiver = null
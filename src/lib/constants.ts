@@ -19,6 +19,25 @@ export const ZDLE = 0x18
  */
 export const XON = 0x11
 
+/**
+ * CAN character - shares its value with ZDLE, a run of them aborts the session
+ */
+export const CAN = 0x18
+
+/**
+ * Number of consecutive CAN characters that abort a session
+ */
+export const CAN_ABORT_COUNT = 5
+
+/**
+ * Sequence sent to cancel a session: 8 CAN characters followed by 8 backspaces
+ * to erase them from a terminal that happens to display them
+ */
+export const CANCEL_SEQUENCE: Uint8Array = new Uint8Array([
+  0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18,
+  0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08, 0x08
+])
+
 /**
  * Maximum size of an unescaped subpacket payload.
  * Increased from 1024 to 8192 for better throughput over high-latency connections.
@@ -33,6 +52,42 @@ export const SUBPACKET_MAX_SIZE = 8192
  */
 export const SUBPACKET_PER_ACK = 200
 
+/**
+ * Default number of consecutive CRC or header errors the receiver recovers from
+ * before giving up on the session
+ */
+export const MAX_CONSECUTIVE_ERRORS = 10
+
+/**
+ * Maximum length of the ZSINIT attention string, without the null terminator
+ */
+export const ZATTNLEN = 32
+
+/**
+ * Number of times a frame is resent after a ZNAK or a timeout before giving up
+ */
+export const MAX_RETRIES = 10
+
+/**
+ * Default time in milliseconds to wait for the remote before resending a frame
+ */
+export const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * Smallest subpacket size the sender shrinks to on a noisy line
+ */
+export const MIN_SUBPACKET_SIZE = 32
+
+/**
+ * Retransmissions in a row after which the sender halves its subpacket size and window
+ */
+export const ADAPT_SHRINK_AFTER = 2
+
+/**
+ * Clean windows in a row after which the sender doubles its subpacket size and window again
+ */
+export const ADAPT_GROW_AFTER = 8
+
 /**
  * Maximum size of an escaped header
  */
@@ -53,6 +108,26 @@ export const WIRE_BUF_SIZE = MAX_HEADER_ESCAPED + MAX_SUBPACKET_ESCAPED
  */
 export const HEADER_PAYLOAD_SIZE = 5
 
+/**
+ * Index of the ZF0 flag within the header flags (ZF0 is the last byte on the wire)
+ */
+export const ZF0 = 3
+
+/**
+ * Index of the ZF1 flag within the header flags
+ */
+export const ZF1 = 2
+
+/**
+ * Index of the ZF2 flag within the header flags
+ */
+export const ZF2 = 1
+
+/**
+ * Index of the ZF3 flag within the header flags
+ */
+export const ZF3 = 0
+
 /**
  * Header size with enough capacity for an escaped header
  */
@@ -14,6 +14,21 @@ export class ZmodemError extends Error {
   }
 }
 
+/**
+ * Insufficient space error: the file is larger than the receiver's free space.
+ */
+export class InsufficientSpaceError extends ZmodemError {
+  public readonly size: number
+  public readonly freeSpace: number
+
+  constructor (size: number, freeSpace: number) {
+    super(`Insufficient space: ${size} bytes needed, ${freeSpace} bytes free`)
+    this.name = 'InsufficientSpaceError'
+    this.size = size
+    this.freeSpace = freeSpace
+  }
+}
+
 /**
  * Malformed encoding type error.
  */
@@ -116,6 +131,52 @@ export class OutOfMemoryError extends ZmodemError {
   }
 }
 
+/**
+ * Timeout error.
+ */
+export class TimeoutError extends ZmodemError {
+  public readonly retries: number
+
+  constructor (retries: number) {
+    super(`Timed out after ${retries} retries`)
+    this.name = 'TimeoutError'
+    this.retries = retries
+  }
+}
+
+/**
+ * Too many retries error.
+ */
+export class TooManyRetriesError extends ZmodemError {
+  public readonly retries: number
+
+  constructor (retries: number) {
+    super(`Too many retries: ${retries}`)
+    this.name = 'TooManyRetriesError'
+    this.retries = retries
+  }
+}
+
+/**
+ * Remote abort error: the remote ended the session with ZABORT.
+ */
+export class RemoteAbortError extends ZmodemError {
+  constructor () {
+    super('Remote aborted the session')
+    this.name = 'RemoteAbortError'
+  }
+}
+
+/**
+ * Remote file error: the remote failed to read or write the file and sent ZFERR.
+ */
+export class RemoteFileError extends ZmodemError {
+  constructor () {
+    super('Remote file error')
+    this.name = 'RemoteFileError'
+  }
+}
+
 /**
  * Unexpected CRC-16 error.
  */
@@ -173,6 +234,7 @@ export class WriteError extends ZmodemError {
  * Union type of all ZMODEM errors.
  */
 export type Error =
+  | InsufficientSpaceError
   | MalformedEncodingError
   | MalformedFileSizeError
   | MalformedFileNameError
@@ -182,6 +244,10 @@ export type Error =
   | NotConnectedError
   | ReadError
   | OutOfMemoryError
+  | TimeoutError
+  | TooManyRetriesError
+  | RemoteAbortError
+  | RemoteFileError
   | UnexpectedCrc16Error
   | UnexpectedCrc32Error
   | UnexpectedEofError
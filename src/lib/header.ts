@@ -121,6 +121,82 @@ export enum Zrinit {
   ESC8 = 0x80
 }
 
+/**
+ * ZSINIT flags - escaping the sender expects from the receiver, carried in ZF0.
+ */
+export enum Zsinit {
+  /** Sender expects control characters to be escaped */
+  TESCCTL = 0x40,
+  /** Sender expects 8th bit to be escaped */
+  TESC8 = 0x80
+}
+
+/**
+ * ZCOMMAND flags, carried in ZF0.
+ */
+export enum Zcommand {
+  /** Acknowledge, then do the command */
+  ZCACK1 = 1
+}
+
+/**
+ * ZFILE conversion options, carried in ZF0.
+ */
+export enum Zconv {
+  /** Binary transfer, inhibit conversion */
+  ZCBIN = 1,
+  /** Convert NL to local end of line convention */
+  ZCNL = 2,
+  /** Resume interrupted file transfer */
+  ZCRESUM = 3
+}
+
+/**
+ * ZFILE management options, carried in ZF1.
+ */
+export enum Zmanage {
+  /** Skip the file if it is not present at the receiver (combined with another option) */
+  ZMSKNOLOC = 0x80,
+  /** Mask for the option values below */
+  ZMMASK = 0x1f,
+  /** Transfer if the source is newer or longer */
+  ZMNEWL = 1,
+  /** Transfer if the file CRCs or lengths differ */
+  ZMCRC = 2,
+  /** Append to the existing file */
+  ZMAPND = 3,
+  /** Replace the existing file */
+  ZMCLOB = 4,
+  /** Transfer if the source is newer */
+  ZMNEW = 5,
+  /** Transfer if the dates or lengths differ */
+  ZMDIFF = 6,
+  /** Protect the destination file: transfer only if it does not exist */
+  ZMPROT = 7,
+  /** Change the file name if the destination exists */
+  ZMCHNG = 8
+}
+
+/**
+ * ZFILE transport options, carried in ZF2.
+ */
+export enum Ztrans {
+  /** Lempel-Ziv compression */
+  ZTLZW = 1,
+  /** Encryption */
+  ZTCRYPT = 2,
+  /** Run length encoding */
+  ZTRLE = 3
+}
+
+/**
+ * ZFILE extended options, carried in ZF3.
+ */
+export enum Zext {
+  /** Encoding for sparse files */
+  ZXSPARS = 64
+}
+
 /**
  * Data structure for holding a ZMODEM protocol header.
  */
@@ -198,9 +274,10 @@ export class Header {
 
   /**
    * Encodes and writes the header to a byte array.
+   * @param table - The escape table for binary headers (defaults to ZDLE_TABLE)
    * @returns The encoded header bytes
    */
-  encode (): Uint8Array {
+  encode (table: Uint8Array = ZDLE_TABLE): Uint8Array {
     const result: number[] = []
 
     // Write header start
@@ -248,7 +325,7 @@ export class Header {
     } else {
       // Binary encode with escaping
       for (const byte of payload) {
-        const escaped = ZDLE_TABLE[byte]
+        const escaped = table[byte]
         if (escaped !== byte) {
           result.push(ZDLE)
         }
@@ -264,22 +341,25 @@ export class Header {
  * Pre-defined header constants.
  */
 export const ZACK_HEADER = new Header(Encoding.ZHEX, Frame.ZACK)
+export const ZCRC_HEADER = new Header(Encoding.ZHEX, Frame.ZCRC)
 export const ZDATA_HEADER = new Header(Encoding.ZBIN32, Frame.ZDATA)
 export const ZEOF_HEADER = new Header(Encoding.ZBIN32, Frame.ZEOF)
 export const ZFIN_HEADER = new Header(Encoding.ZHEX, Frame.ZFIN)
 export const ZNAK_HEADER = new Header(Encoding.ZHEX, Frame.ZNAK)
 export const ZRPOS_HEADER = new Header(Encoding.ZHEX, Frame.ZRPOS)
 export const ZRQINIT_HEADER = new Header(Encoding.ZHEX, Frame.ZRQINIT)
+export const ZSKIP_HEADER = new Header(Encoding.ZHEX, Frame.ZSKIP)
 
 /**
  * Writes a slice of bytes with ZDLE escaping.
  * @param data - The data to escape and write
+ * @param table - The escape table (defaults to ZDLE_TABLE)
  * @returns The escaped bytes
  */
-export function writeSliceEscaped (data: Uint8Array): Uint8Array {
+export function writeSliceEscaped (data: Uint8Array, table: Uint8Array = ZDLE_TABLE): Uint8Array {
   const result: number[] = []
   for (const byte of data) {
-    const escaped = ZDLE_TABLE[byte]
+    const escaped = table[byte]
     if (escaped !== byte) {
       result.push(ZDLE)
     }
@@ -291,10 +371,11 @@ export function writeSliceEscaped (data: Uint8Array): Uint8Array {
 /**
  * Writes a single byte with ZDLE escaping.
  * @param value - The byte to escape and write
+ * @param table - The escape table (defaults to ZDLE_TABLE)
  * @returns The escaped byte(s)
  */
-export function writeByteEscaped (value: number): Uint8Array {
-  const escaped = ZDLE_TABLE[value]
+export function writeByteEscaped (value: number, table: Uint8Array = ZDLE_TABLE): Uint8Array {
+  const escaped = table[value]
   if (escaped !== value) {
     return new Uint8Array([ZDLE, escaped])
   }
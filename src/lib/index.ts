@@ -11,7 +11,8 @@
  * 1. Create `Sender` or `Receiver`.
  * 2. Drain `drainOutgoing()` returned bytes into the wire and call
  *    `advanceOutgoing()` after writing. Then, feed incoming bytes with
- *    `feedIncoming()`.
+ *    `feedIncoming()`, and call `tick()` periodically so that lost frames
+ *    are resent.
  * 3. In the sender, complete `pollFile()` with `feedFile()` if required
  *    and handle events via `pollEvent()`.
  * 4. In the receiver, write `drainFile()` returned bytes into storage, and
@@ -21,11 +22,12 @@
  */
 
 // Constants
-export { ZPAD, ZDLE, XON, SUBPACKET_MAX_SIZE, SUBPACKET_PER_ACK } from './constants.js'
+export { ZPAD, ZDLE, XON, CAN, CAN_ABORT_COUNT, CANCEL_SEQUENCE, MAX_CONSECUTIVE_ERRORS, ZATTNLEN, MAX_RETRIES, DEFAULT_TIMEOUT_MS, SUBPACKET_MAX_SIZE, SUBPACKET_PER_ACK, MIN_SUBPACKET_SIZE, ZF0, ZF1, ZF2, ZF3 } from './constants.js'
 
 // Errors
 export {
   ZmodemError,
+  InsufficientSpaceError,
   MalformedEncodingError,
   MalformedFileSizeError,
   MalformedFileNameError,
@@ -35,6 +37,10 @@ export {
   NotConnectedError,
   ReadError,
   OutOfMemoryError,
+  TimeoutError,
+  TooManyRetriesError,
+  RemoteAbortError,
+  RemoteFileError,
   UnexpectedCrc16Error,
   UnexpectedCrc32Error,
   UnexpectedEofError,
@@ -47,7 +53,10 @@ export {
 export { crc16Xmodem, crc32IsoHdlc, Crc16, Crc32 } from './crc.js'
 
 // ZDLE encoding
-export { ZDLE_TABLE, UNZDLE_TABLE, escapeByte, unescapeByte } from './zdle.js'
+export { ZDLE_TABLE, UNZDLE_TABLE, createEscapeTable, escapeByte, unescapeByte } from './zdle.js'
+
+// Line ending conversion
+export { LineEnding, toWireText, fromWireText } from './newline.js'
 
 // Header types
 export {
@@ -56,14 +65,22 @@ export {
   Frame,
   frameFromByte,
   Zrinit,
+  Zsinit,
+  Zcommand,
+  Zconv,
+  Zmanage,
+  Ztrans,
+  Zext,
   Header,
   ZACK_HEADER,
+  ZCRC_HEADER,
   ZDATA_HEADER,
   ZEOF_HEADER,
   ZFIN_HEADER,
   ZNAK_HEADER,
   ZRPOS_HEADER,
   ZRQINIT_HEADER,
+  ZSKIP_HEADER,
   decodeHeader,
   createZrinit,
   writeSliceEscaped,
@@ -75,8 +92,25 @@ export {
   SubpacketType,
   subpacketTypeFromByte,
   type FileRequest,
+  type SendFileOptions,
+  type FileDescriptor,
+  type FileInfo,
+  type LocalFile,
+  type SenderOptions,
+  FlowControl,
+  FileAction,
+  type ReceiverOptions,
+  type ReceiverStats,
   SenderEvent,
   ReceiverEvent,
   Sender,
   Receiver
 } from './transmission.js'
+
+// Sessions
+export {
+  SessionRole,
+  SessionEvent,
+  type SessionOptions,
+  Session
+} from './session.js'
@@ -0,0 +1,63 @@
+/**
+ * Line ending conversion for ZCNL text transfers.
+ *
+ * On the wire, text lines end with CR LF. The receiver drops every CR and
+ * writes lines with its local line ending, the way `rz` handles `sz -a`.
+ *
+ * @module zmodem2-js/newline
+ */
+
+const CR = 0x0d
+const LF = 0x0a
+
+/**
+ * Local line ending convention of a receiver.
+ */
+export enum LineEnding {
+  /** Unix line endings */
+  Lf = 'lf',
+  /** Windows line endings */
+  Crlf = 'crlf'
+}
+
+/**
+ * Converts file data to wire text by turning each bare LF into CR LF.
+ * @param data - The file data
+ * @param prevCr - Whether the byte before `data` in the file was a CR
+ * @returns The converted data
+ */
+export function toWireText (data: Uint8Array, prevCr: boolean): Uint8Array {
+  const result: number[] = []
+  let lastCr = prevCr
+  for (let i = 0; i < data.length; i++) {
+    const b = data[i]
+    if (b === LF && !lastCr) {
+      result.push(CR)
+    }
+    result.push(b)
+    lastCr = b === CR
+  }
+  return new Uint8Array(result)
+}
+
+/**
+ * Converts wire text to the local line ending by dropping each CR and,
+ * for `LineEnding.Crlf`, writing each LF as CR LF.
+ * @param data - The received data
+ * @param lineEnding - The local line ending
+ * @returns The converted data
+ */
+export function fromWireText (data: Uint8Array, lineEnding: LineEnding): Uint8Array {
+  const result: number[] = []
+  for (let i = 0; i < data.length; i++) {
+    const b = data[i]
+    if (b === CR) {
+      continue
+    }
+    if (b === LF && lineEnding === LineEnding.Crlf) {
+      result.push(CR)
+    }
+    result.push(b)
+  }
+  return new Uint8Array(result)
+}
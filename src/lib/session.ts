@@ -0,0 +1,253 @@
+/**
+ * ZMODEM session that switches between sending and receiving.
+ *
+ * @module zmodem2-js/session
+ */
+
+import { UnsupportedError } from './error.js'
+import { Frame, Zsinit } from './header.js'
+import {
+  HeaderReader,
+  Receiver,
+  ReceiverEvent,
+  Sender,
+  SenderEvent,
+  type FileDescriptor,
+  type ReceiverOptions,
+  type SenderOptions
+} from './transmission.js'
+
+/**
+ * The role a `Session` currently plays.
+ */
+export enum SessionRole {
+  /** Sending files with a `Sender` */
+  Sender = 'sender',
+  /** Receiving files with a `Receiver` */
+  Receiver = 'receiver'
+}
+
+/**
+ * Events emitted by a `Session` in addition to those of its state machines.
+ */
+export enum SessionEvent {
+  /** A `Sender` or `Receiver` took over, see `getRole()` */
+  RoleChanged = 'RoleChanged'
+}
+
+/**
+ * Options for creating a `Session`.
+ */
+export interface SessionOptions {
+  /** Options for each `Sender`, `initiator` is set by the session */
+  sender?: SenderOptions
+  /** Options for each `Receiver` */
+  receiver?: ReceiverOptions
+}
+
+/**
+ * Runs a `Sender` or a `Receiver` on one connection, picking the role from
+ * the first header the remote sends: ZRINIT starts a sender, while ZRQINIT
+ * or ZFILE start a receiver. When a session ends the next header picks the
+ * role again, and a remote answering our ZFIN with ZRQINIT hands over to a
+ * receiver straight away. Escaping the remote asked for with ZSINIT while
+ * we received also applies when we send to it later.
+ *
+ * Files are served and stored through `getSender()` and `getReceiver()`.
+ */
+export class Session {
+  private readonly senderOptions: SenderOptions
+  private readonly receiverOptions: ReceiverOptions
+  private readonly headerReader: HeaderReader = new HeaderReader()
+  private sender: Sender | null = null
+  private receiver: Receiver | null = null
+  // The machine that ended last, kept to flush its output and answer a repeated ZFIN
+  private finished: Sender | Receiver | null = null
+  // Escaping the remote asked for in a ZSINIT, kept for later senders
+  private remoteEscaping: number = 0
+  private readonly pendingEvents: Array<SenderEvent | ReceiverEvent | SessionEvent> = []
+
+  /**
+   * Creates a new session that waits for the remote to pick the role.
+   * @param options - Options for the sender and receiver (optional)
+   */
+  constructor (options: SessionOptions = {}) {
+    this.senderOptions = options.sender ?? {}
+    this.receiverOptions = options.receiver ?? {}
+  }
+
+  /**
+   * Returns the current role, or null while waiting for the remote.
+   */
+  getRole (): SessionRole | null {
+    if (this.sender !== null) {
+      return SessionRole.Sender
+    }
+    if (this.receiver !== null) {
+      return SessionRole.Receiver
+    }
+    return null
+  }
+
+  /**
+   * Returns the active sender, if the session is sending.
+   */
+  getSender (): Sender | null {
+    return this.sender
+  }
+
+  /**
+   * Returns the active receiver, if the session is receiving.
+   */
+  getReceiver (): Receiver | null {
+    return this.receiver
+  }
+
+  /**
+   * Queues files to send. While waiting for the remote this starts a sender
+   * that initiates with ZRQINIT.
+   * @param files - The files to send
+   */
+  sendFiles (files: FileDescriptor[]): void {
+    if (this.receiver !== null) {
+      throw new UnsupportedError()
+    }
+    if (this.sender === null) {
+      this.startSender(true)
+    }
+    this.sender?.sendFiles(files)
+  }
+
+  /**
+   * Feeds incoming bytes to the active state machine, or reads them for a
+   * header that picks the role.
+   * @param input - The incoming data
+   * @returns The number of bytes consumed
+   */
+  feedIncoming (input: Uint8Array): number {
+    let consumed = 0
+
+    while (consumed < input.length) {
+      const machine = this.sender ?? this.receiver
+      if (machine !== null) {
+        const n = machine.feedIncoming(input.subarray(consumed))
+        consumed += n
+        if (!this.checkFinished() && n === 0) {
+          break
+        }
+        continue
+      }
+
+      const result = this.headerReader.read(input, consumed)
+      if (result === null) {
+        // The header reader buffers a partial header across calls
+        consumed = input.length
+        break
+      }
+      consumed = result.consumed
+      if (!('header' in result)) {
+        continue
+      }
+
+      const header = result.header
+      switch (header.frame) {
+        case Frame.ZRINIT:
+          this.startSender(false)
+          this.sender?.feedIncoming(header.encode())
+          break
+        case Frame.ZRQINIT:
+        case Frame.ZFILE:
+        case Frame.ZSINIT:
+        case Frame.ZCOMMAND:
+          this.startReceiver()
+          this.receiver?.feedIncoming(header.encode())
+          break
+        case Frame.ZFIN:
+          // Our ZFIN was lost and the remote sender timed out
+          if (this.finished instanceof Receiver) {
+            this.finished.feedIncoming(header.encode())
+          }
+          break
+      }
+    }
+
+    return consumed
+  }
+
+  /**
+   * Returns pending outgoing bytes of the session.
+   */
+  drainOutgoing (): Uint8Array {
+    const previous = this.finished?.drainOutgoing() ?? new Uint8Array(0)
+    const machine = this.sender ?? this.receiver
+    if (machine === null || previous.length === 0) {
+      return machine?.drainOutgoing() ?? previous
+    }
+    const current = machine.drainOutgoing()
+    const result = new Uint8Array(previous.length + current.length)
+    result.set(previous)
+    result.set(current, previous.length)
+    return result
+  }
+
+  /**
+   * Returns the next pending event of the session or its state machines.
+   */
+  pollEvent (): SenderEvent | ReceiverEvent | SessionEvent | null {
+    const event = this.pendingEvents.shift()
+    if (event !== undefined) {
+      return event
+    }
+    return (this.sender ?? this.receiver)?.pollEvent() ?? null
+  }
+
+  /**
+   * Advances the clock of the active state machine.
+   * @param nowMs - The current time in milliseconds, from any monotonic source
+   */
+  tick (nowMs: number): void {
+    (this.sender ?? this.receiver)?.tick(nowMs)
+  }
+
+  private startSender (initiator: boolean): void {
+    this.sender = new Sender({
+      ...this.senderOptions,
+      initiator,
+      escapeControl: (this.senderOptions.escapeControl ?? false) || (this.remoteEscaping & Zsinit.TESCCTL) !== 0,
+      escape8: (this.senderOptions.escape8 ?? false) || (this.remoteEscaping & Zsinit.TESC8) !== 0
+    })
+    this.pendingEvents.push(SessionEvent.RoleChanged)
+  }
+
+  private startReceiver (): void {
+    this.receiver = new Receiver(this.receiverOptions)
+    this.pendingEvents.push(SessionEvent.RoleChanged)
+  }
+
+  /**
+   * Retires the active machine once its session is over, keeping its events
+   * ahead of the next role. Returns true if the role changed.
+   */
+  private checkFinished (): boolean {
+    const machine = this.sender ?? this.receiver
+    if (machine === null || !machine.isDone()) {
+      return false
+    }
+
+    let event: SenderEvent | ReceiverEvent | null
+    while ((event = machine.pollEvent()) !== null) {
+      this.pendingEvents.push(event)
+    }
+    if (machine instanceof Receiver) {
+      this.remoteEscaping |= machine.getRemoteEscaping()
+    }
+    this.finished = machine
+    this.sender = null
+    this.receiver = null
+
+    if (machine instanceof Sender && machine.isRemoteSending()) {
+      this.startReceiver()
+    }
+    return true
+  }
+}
@@ -4,11 +4,17 @@
  * @module zmodem2-js/transmission
  */
 
-import { ZDLE, ZPAD, SUBPACKET_MAX_SIZE, SUBPACKET_PER_ACK, WIRE_BUF_SIZE } from './constants.js'
-import { MalformedPacketError, MalformedFileNameError, MalformedFileSizeError, MalformedHeaderError, OutOfMemoryError, UnexpectedCrc16Error, UnexpectedCrc32Error, UnexpectedEofError, UnsupportedError } from './error.js'
-import { Encoding, Frame, Header, ZACK_HEADER, ZDATA_HEADER, ZEOF_HEADER, ZFIN_HEADER, ZNAK_HEADER, ZRPOS_HEADER, ZRQINIT_HEADER, decodeHeader, createZrinit, writeSliceEscaped, Zrinit } from './header.js'
+import { CAN, CAN_ABORT_COUNT, CANCEL_SEQUENCE, MAX_CONSECUTIVE_ERRORS, MAX_RETRIES, ZATTNLEN, DEFAULT_TIMEOUT_MS, MIN_SUBPACKET_SIZE, ADAPT_SHRINK_AFTER, ADAPT_GROW_AFTER, ZDLE, ZPAD, ZF0, ZF1, ZF2, ZF3, SUBPACKET_MAX_SIZE, SUBPACKET_PER_ACK, WIRE_BUF_SIZE } from './constants.js'
+import { InsufficientSpaceError, MalformedPacketError, MalformedFileNameError, MalformedFileSizeError, MalformedHeaderError, OutOfMemoryError, RemoteAbortError, RemoteFileError, TimeoutError, TooManyRetriesError, UnexpectedCrc16Error, UnexpectedCrc32Error, UnexpectedEofError, UnsupportedError, ZmodemError } from './error.js'
+import { Encoding, Frame, Header, ZACK_HEADER, ZCRC_HEADER, ZFIN_HEADER, ZNAK_HEADER, ZRPOS_HEADER, ZRQINIT_HEADER, ZSKIP_HEADER, decodeHeader, createZrinit, writeSliceEscaped, Zcommand, Zconv, Zmanage, Ztrans, Zrinit, Zsinit } from './header.js'
 import { Crc16, Crc32 } from './crc.js'
-import { UNZDLE_TABLE } from './zdle.js'
+import { LineEnding, fromWireText, toWireText } from './newline.js'
+import { UNZDLE_TABLE, createEscapeTable } from './zdle.js'
+
+/**
+ * The ZFREECNT answer of a receiver that does not know its free space.
+ */
+const UNKNOWN_FREE_SPACE = 0xFFFFFFFF
 
 /**
  * The ZMODEM protocol subpacket type.
@@ -55,26 +61,248 @@ export interface FileRequest {
   len: number
 }
 
+/**
+ * Per-file options for `Sender.startFile()`.
+ */
+export interface SendFileOptions {
+  /** ZF0 conversion option, e.g. `Zconv.ZCRESUM` to ask the receiver to resume a partial file */
+  conversion?: Zconv
+  /**
+   * Send the file as text: bare LF line endings go out as CR LF and the
+   * conversion option defaults to `Zconv.ZCNL`. Text transfers cannot be
+   * resumed, so a ZRPOS between subpackets cancels the session.
+   */
+  text?: boolean
+  /** ZF1 management option, e.g. `Zmanage.ZMNEW`, optionally ORed with `Zmanage.ZMSKNOLOC` */
+  management?: number
+  /** ZF2 transport option */
+  transport?: Ztrans
+  /** ZF3 extended options, e.g. `Zext.ZXSPARS` */
+  extended?: number
+  /** The Unix file mode, e.g. `0o100644` */
+  mode?: number
+  /** The serial number of the sending program */
+  serial?: number
+  /** Number of files left in the batch, counting this one */
+  filesRemaining?: number
+  /** Number of bytes left in the batch, counting this file */
+  bytesRemaining?: number
+}
+
+/**
+ * File metadata from the ZFILE info string, as reported by `Receiver.getFileInfo()`.
+ * Fields the sender left out are 0.
+ */
+export interface FileInfo {
+  /** The name of the file */
+  name: string
+  /** The size of the file in bytes */
+  size: number
+  /** The file modification time in milliseconds */
+  mtime: number
+  /** The Unix file mode */
+  mode: number
+  /** The serial number of the sending program */
+  serial: number
+  /** Number of files left in the batch, counting this one */
+  filesRemaining: number
+  /** Number of bytes left in the batch, counting this file */
+  bytesRemaining: number
+}
+
+/**
+ * What a receiver does with an offered file, as chosen by `Receiver.decideFile()`.
+ */
+export enum FileAction {
+  /** Write the file from the start, replacing any local file */
+  Write = 'write',
+  /** Continue a partial local file */
+  Resume = 'resume',
+  /** Append the received data to the local file */
+  Append = 'append',
+  /** Write the file under a new name because the local file exists */
+  Rename = 'rename',
+  /** The file was skipped */
+  Skip = 'skip'
+}
+
+/**
+ * The local copy of an offered file, passed to `Receiver.decideFile()`.
+ */
+export interface LocalFile {
+  /** The size of the local file in bytes */
+  size: number
+  /** The local modification time in milliseconds (optional) */
+  mtime?: number
+  /** Returns the CRC-32 of the first `length` bytes of the local file (optional) */
+  crc?: (length: number) => number
+}
+
+/**
+ * A file queued with `Sender.sendFiles()`.
+ */
+export interface FileDescriptor {
+  /** The name of the file */
+  name: string
+  /** The size of the file in bytes */
+  size: number
+  /** The file modification time in milliseconds (optional) */
+  mtime?: number
+  /** The Unix file mode, e.g. `0o644` (optional) */
+  mode?: number
+}
+
+/**
+ * How the sender sizes its data frames from the receiver's ZRINIT.
+ */
+export enum FlowControl {
+  /** Follow the spec: cap each window at the advertised buffer size and wait for ZACK without CANFDX/CANOVIO */
+  Strict = 'Strict',
+  /** Ignore the advertised buffer size and stream as much as possible between ACKs */
+  Aggressive = 'Aggressive'
+}
+
+/**
+ * Options for creating a `Sender`.
+ */
+export interface SenderOptions {
+  /** If true (default), the sender initiates by sending ZRQINIT, otherwise it waits for ZRINIT */
+  initiator?: boolean
+  /** Milliseconds to wait for a reply before `tick()` resends a frame, defaults to `DEFAULT_TIMEOUT_MS` */
+  timeout?: number
+  /** Number of resends after a ZNAK or a timeout before failing, defaults to `MAX_RETRIES` */
+  maxRetries?: number
+  /** Escape all control characters even if the receiver does not ask for ESCCTL, like `sz -e` */
+  escapeControl?: boolean
+  /** Escape the high-bit control characters even if the receiver does not ask for ESC8 */
+  escape8?: boolean
+  /** Ask the receiver to escape control characters in what it sends, with TESCCTL in ZSINIT */
+  remoteEscapeControl?: boolean
+  /** Ask the receiver to escape the high-bit control characters in what it sends, with TESC8 in ZSINIT */
+  remoteEscape8?: boolean
+  /**
+   * Attention string sent in ZSINIT, at most `ZATTNLEN` bytes. The receiver
+   * writes it before each ZRPOS to interrupt the sender's output.
+   */
+  attention?: Uint8Array
+  /** Flow control policy, defaults to `FlowControl.Aggressive` */
+  flowControl?: FlowControl
+  /** Send ZBIN headers and CRC-16 subpackets even if the receiver advertises CANFC32 */
+  crc16?: boolean
+  /** Maximum subpacket payload, 1 to `SUBPACKET_MAX_SIZE` (the default) */
+  subpacketSize?: number
+  /** Subpackets sent before waiting for ZACK, defaults to `SUBPACKET_PER_ACK` */
+  subpacketsPerAck?: number
+  /**
+   * Bytes that may be in flight without a ZACK. When set, the sender streams
+   * the whole file in one frame and asks for a ZACK with ZCRCQ every
+   * `subpacketsPerAck` subpackets instead of stopping with ZCRCW. Requires a
+   * full duplex receiver (CANFDX). Defaults to 0, which disables the window.
+   */
+  streamingWindow?: number
+  /**
+   * Halve the subpacket size and window after repeated retransmissions and
+   * double them back after a run of clean windows. Defaults to true.
+   */
+  adaptive?: boolean
+  /**
+   * Refuse to start a file larger than the free space last reported for
+   * `queryFreeSpace()`. `startFile()` throws `InsufficientSpaceError`, while
+   * files queued with `sendFiles()` are left out with `FileRefused`. Files
+   * sent since the query count against the reported space, and an unknown
+   * free space (0xFFFFFFFF) refuses nothing.
+   */
+  checkFreeSpace?: boolean
+}
+
+/**
+ * Options for creating a `Receiver`.
+ */
+export interface ReceiverOptions {
+  /**
+   * Number of consecutive CRC or header errors to recover from before the
+   * error is thrown. Defaults to `MAX_CONSECUTIVE_ERRORS`, 0 throws on the first error.
+   */
+  maxErrors?: number
+  /** Milliseconds of silence before `tick()` resends a frame, defaults to `DEFAULT_TIMEOUT_MS` */
+  timeout?: number
+  /** Number of resends after a timeout before failing, defaults to `MAX_RETRIES` */
+  maxRetries?: number
+  /** Receive buffer size advertised in ZRINIT, 0 to 65535 where 0 means unlimited, defaults to `SUBPACKET_MAX_SIZE` */
+  bufferSize?: number
+  /** `Zrinit` capability flags advertised in ZRINIT, defaults to `CANFDX | CANOVIO | CANFC32` */
+  capabilities?: number
+  /** Files larger than this are skipped with ZSKIP and reported with `FileSkipped` */
+  maxFileSize?: number
+  /** Line ending written for files sent with `Zconv.ZCNL`, defaults to `LineEnding.Lf` */
+  lineEnding?: LineEnding
+  /**
+   * Decides whether a ZCOMMAND from the sender may run. Allowed commands are
+   * reported with `Command` and answered with `completeCommand()`. Without a
+   * policy every command is rejected.
+   */
+  commandPolicy?: (command: string) => boolean
+  /**
+   * Returns the bytes free for received files, reported to the sender for
+   * ZFREECNT. Without it the receiver reports 0xFFFFFFFF, meaning unknown.
+   */
+  freeSpace?: () => number
+}
+
+/**
+ * Error counters of a `Receiver`.
+ */
+export interface ReceiverStats {
+  /** Subpackets discarded because of a bad CRC */
+  dataErrors: number
+  /** Headers rejected with ZNAK because they could not be decoded */
+  headerErrors: number
+  /** Errors since the last subpacket that passed its CRC check */
+  consecutiveErrors: number
+}
+
 /**
  * Events emitted by the Sender.
  */
 export enum SenderEvent {
   /** File transfer complete */
   FileComplete = 'FileComplete',
+  /** File skipped by the receiver */
+  FileSkipped = 'FileSkipped',
   /** Session complete */
-  SessionComplete = 'SessionComplete'
+  SessionComplete = 'SessionComplete',
+  /** Session cancelled by the remote with a CAN sequence */
+  SessionCancelled = 'SessionCancelled',
+  /** Remote command finished, see `getCommandStatus()` */
+  CommandComplete = 'CommandComplete',
+  /** Free space reported by the receiver, see `getFreeSpace()` */
+  FreeSpace = 'FreeSpace',
+  /** Queued file left out because it exceeds the free space, see `checkFreeSpace` */
+  FileRefused = 'FileRefused'
 }
 
 /**
  * Events emitted by the Receiver.
  */
 export enum ReceiverEvent {
-  /** File transfer starting */
+  /** File offered by the sender, answer with `acceptFile()` or `skipFile()` */
   FileStart = 'FileStart',
   /** File transfer complete */
   FileComplete = 'FileComplete',
+  /** File offered by the sender was skipped because it exceeds `maxFileSize` */
+  FileSkipped = 'FileSkipped',
+  /** Partial file did not match the sender's CRC, transfer restarts from offset 0 */
+  ResumeRejected = 'ResumeRejected',
   /** Session complete */
-  SessionComplete = 'SessionComplete'
+  SessionComplete = 'SessionComplete',
+  /** Session cancelled by the remote with a CAN sequence */
+  SessionCancelled = 'SessionCancelled',
+  /** Command allowed by `commandPolicy`, see `getCommand()` and answer with `completeCommand()` */
+  Command = 'Command',
+  /** Command rejected by `commandPolicy`, or too long to read, and answered with exit status 1 */
+  CommandRejected = 'CommandRejected',
+  /** Message from the sender for standard error, see `getMessage()` */
+  Message = 'Message'
 }
 
 /**
@@ -110,9 +338,14 @@ enum HeaderReadState {
  */
 enum SendState {
   WaitReceiverInit,
+  WaitZsinitAck,
+  WaitCommandComplete,
+  WaitFreeSpace,
   ReadyForFile,
   WaitFilePos,
+  NeedCrcData,
   NeedFileData,
+  WaitWindow,
   WaitFileAck,
   WaitFileDone,
   WaitFinish,
@@ -124,13 +357,95 @@ enum SendState {
  */
 enum RecvState {
   SessionBegin,
+  SessionReadingZsinit,
+  SessionReadingCommand,
+  SessionReadingMessage,
+  CommandAwaitingStatus,
   FileBegin,
   FileReadingMetadata,
+  FileAwaitingDecision,
+  FileVerifyingCrc,
   FileReadingSubpacket,
   FileWaitingSubpacket,
   SessionEnd
 }
 
+/**
+ * Result of reading from the wire: a complete header, a remote cancel, or a
+ * header that could not be decoded.
+ */
+export type HeaderReadResult =
+  | { header: Header, consumed: number }
+  | { cancelled: true, consumed: number }
+  | { error: ZmodemError, consumed: number }
+
+/**
+ * Detects the abort sequence of consecutive CAN characters.
+ */
+class CancelDetector {
+  private count: number = 0
+
+  /**
+   * Tracks a byte and returns true when it completes an abort sequence.
+   */
+  feed (byte: number): boolean {
+    if (byte !== CAN) {
+      this.count = 0
+      return false
+    }
+    this.count++
+    if (this.count >= CAN_ABORT_COUNT) {
+      this.count = 0
+      return true
+    }
+    return false
+  }
+
+  reset (): void {
+    this.count = 0
+  }
+}
+
+/**
+ * Retransmission timer driven by the clock values passed to `tick()`.
+ * The deadline is armed on the first poll after a restart, so the state
+ * machines never need to know the current time outside of `tick()`.
+ */
+class RetryTimer {
+  private deadline: number | null = null
+  private retries: number = 0
+
+  constructor (private readonly timeout: number, private readonly maxRetries: number) {}
+
+  /**
+   * Starts a new wait, e.g. after a new frame has been queued.
+   */
+  restart (): void {
+    this.deadline = null
+    this.retries = 0
+  }
+
+  /**
+   * Returns true when the deadline has passed and the frame should be resent.
+   * @throws TimeoutError if the retry limit has been reached
+   */
+  expired (nowMs: number): boolean {
+    if (this.deadline === null) {
+      this.deadline = nowMs + this.timeout
+      return false
+    }
+    if (nowMs < this.deadline) {
+      return false
+    }
+    if (this.retries >= this.maxRetries) {
+      throw new TimeoutError(this.retries)
+    }
+    this.retries++
+    this.deadline = nowMs + this.timeout
+    return true
+  }
+}
+
 /**
  * A simple buffer class for managing byte arrays.
  */
@@ -189,27 +504,104 @@ export class Sender {
   private fileName: string = ''
   private fileSize: number = 0
   private fileMtime: number = 0
+  private fileConversion: number = 0
   private hasFile: boolean = false
   private pendingRequest: FileRequest | null = null
   private frameRemaining: number = 0
   private frameNeedsHeader: boolean = false
+  private readonly fileCrc: Crc32 = new Crc32()
+  private fileCrcRemaining: number = 0
   private maxSubpacketSize: number = SUBPACKET_MAX_SIZE
   private maxSubpacketsPerAck: number = SUBPACKET_PER_ACK
   private readonly buf: Buffer = new Buffer(SUBPACKET_MAX_SIZE)
   private readonly outgoing: Buffer = new Buffer(WIRE_BUF_SIZE)
   private outgoingOffset: number = 0
   private readonly headerReader: HeaderReader = new HeaderReader()
-  private pendingEvent: SenderEvent | null = null
+  private readonly pendingEvents: Array<{ event: SenderEvent, fileIndex: number }> = []
+  private eventFileIndex: number = -1
+  private readonly fileQueue: FileDescriptor[] = []
+  private fileIndex: number = -1
+  private fileMode: number = 0
+  private fileSerial: number = 0
+  private fileManagement: number = 0
+  private fileTransport: number = 0
+  private fileExtended: number = 0
+  private filesRemaining: number | null = null
+  private bytesRemaining: number | null = null
+  private textMode: boolean = false
+  // Wire offset of each subpacket start in a text transfer, keyed by file offset
+  private readonly textCheckpoints: Map<number, { wire: number, prevCr: boolean }> = new Map()
   private finishRequested: boolean = false
+  private lastFrame: Uint8Array | null = null
+  private retries: number = 0
+  private readonly maxRetries: number
+  private readonly timer: RetryTimer
+  private readonly escapeControl: boolean
+  private readonly escape8: boolean
+  private escapeTable: Uint8Array
+  private readonly zsinitFlags: number
+  private readonly attention: Uint8Array
+  private zsinitDone: boolean = false
+  private commandStatus: number = 0
+  private remoteSending: boolean = false
+  private readonly checkFreeSpace: boolean
+  private freeSpace: number | null = null
+  private readonly flowControl: FlowControl
+  private readonly crc16: boolean
+  private dataEncoding: Encoding
+  private readonly subpacketSize: number
+  private readonly subpacketsPerAck: number
+  private readonly streamingWindow: number
+  private window: number = 0
+  private sentOffset: number = 0
+  private ackedOffset: number = 0
+  private readonly adaptive: boolean
+  private baseSubpacketSize: number
+  private baseSubpacketsPerAck: number
+  private baseWindow: number = 0
+  private adaptLevel: number = 0
+  private retransmitCount: number = 0
+  private retransmitRun: number = 0
+  private cleanRun: number = 0
   readonly initiator: boolean = true
 
   /**
    * Creates a new sender instance.
-   * @param initiator - If true, sender initiates by sending ZRQINIT. If false, waits for ZRINIT.
+   * @param options - Sender options, or the `initiator` flag: if true, sender
+   * initiates by sending ZRQINIT. If false, waits for ZRINIT.
    */
-  constructor (initiator: boolean = true) {
-    this.initiator = initiator
-    if (initiator) {
+  constructor (options: boolean | SenderOptions = {}) {
+    const opts = typeof options === 'boolean' ? { initiator: options } : options
+    this.initiator = opts.initiator ?? true
+    this.maxRetries = opts.maxRetries ?? MAX_RETRIES
+    this.timer = new RetryTimer(opts.timeout ?? DEFAULT_TIMEOUT_MS, this.maxRetries)
+    this.escapeControl = opts.escapeControl ?? false
+    this.escape8 = opts.escape8 ?? false
+    this.escapeTable = createEscapeTable(this.escapeControl, this.escape8)
+    this.zsinitFlags = ((opts.remoteEscapeControl ?? false) ? Zsinit.TESCCTL : 0) |
+      ((opts.remoteEscape8 ?? false) ? Zsinit.TESC8 : 0)
+    this.attention = opts.attention ?? new Uint8Array(0)
+    if (this.attention.length > ZATTNLEN) {
+      throw new UnsupportedError()
+    }
+    this.checkFreeSpace = opts.checkFreeSpace ?? false
+    this.flowControl = opts.flowControl ?? FlowControl.Aggressive
+    this.crc16 = opts.crc16 ?? false
+    this.dataEncoding = this.crc16 ? Encoding.ZBIN : Encoding.ZBIN32
+    this.subpacketSize = opts.subpacketSize ?? SUBPACKET_MAX_SIZE
+    this.subpacketsPerAck = opts.subpacketsPerAck ?? SUBPACKET_PER_ACK
+    this.streamingWindow = opts.streamingWindow ?? 0
+    if (!Number.isInteger(this.subpacketSize) || this.subpacketSize < 1 || this.subpacketSize > SUBPACKET_MAX_SIZE ||
+        !Number.isInteger(this.subpacketsPerAck) || this.subpacketsPerAck < 1 ||
+        !Number.isInteger(this.streamingWindow) || this.streamingWindow < 0) {
+      throw new UnsupportedError()
+    }
+    this.adaptive = opts.adaptive ?? true
+    this.baseSubpacketSize = this.subpacketSize
+    this.baseSubpacketsPerAck = this.subpacketsPerAck
+    this.maxSubpacketSize = this.subpacketSize
+    this.maxSubpacketsPerAck = this.subpacketsPerAck
+    if (this.initiator) {
       this.queueZrqinit()
     }
   }
@@ -219,30 +611,149 @@ export class Sender {
    * @param fileName - The name of the file
    * @param fileSize - The size of the file in bytes
    * @param mtime - The file modification time in milliseconds (optional)
+   * @param options - ZFILE options such as the conversion and management options and file mode (optional)
    */
-  startFile (fileName: string, fileSize: number, mtime?: number): void {
+  startFile (fileName: string, fileSize: number, mtime?: number, options: SendFileOptions = {}): void {
     if (this.state === SendState.Done || this.state === SendState.WaitFinish ||
-        (this.state !== SendState.WaitReceiverInit && this.state !== SendState.ReadyForFile)) {
+        (this.state !== SendState.WaitReceiverInit && this.state !== SendState.WaitZsinitAck &&
+          this.state !== SendState.ReadyForFile)) {
       throw new UnsupportedError()
     }
 
-    this.fileName = fileName
-    this.fileSize = fileSize
-    this.fileMtime = mtime || 0
-    this.hasFile = true
-    this.pendingRequest = null
-    this.frameRemaining = 0
-    this.frameNeedsHeader = false
+    if (this.state === SendState.ReadyForFile && this.hasOutgoing()) {
+      throw new UnsupportedError()
+    }
+
+    this.loadFile({ name: fileName, size: fileSize, mtime, mode: options.mode }, options)
 
     if (this.state === SendState.ReadyForFile) {
-      if (this.hasOutgoing()) {
-        throw new UnsupportedError()
-      }
       this.queueZfile()
       this.state = SendState.WaitFilePos
     }
   }
 
+  /**
+   * Queues files to be sent one after another. Each file is offered as soon
+   * as the previous one completes or is skipped, and its ZFILE carries the
+   * number of files and bytes left in the batch. With `checkFreeSpace`,
+   * files that do not fit are reported with `FileRefused` and passed over.
+   * @param files - The files to send
+   */
+  sendFiles (files: FileDescriptor[]): void {
+    if (this.finishRequested || this.state === SendState.Done || this.state === SendState.WaitFinish) {
+      throw new UnsupportedError()
+    }
+    if (this.state === SendState.ReadyForFile && this.hasOutgoing()) {
+      throw new UnsupportedError()
+    }
+
+    this.fileQueue.push(...files)
+    if (this.hasFile || !this.loadNextFile()) {
+      return
+    }
+    if (this.state === SendState.ReadyForFile) {
+      this.queueZfile()
+      this.state = SendState.WaitFilePos
+    }
+  }
+
+  /**
+   * Returns the index of the current file, counting every file started or
+   * refused in the session from 0.
+   */
+  getFileIndex (): number {
+    return this.fileIndex
+  }
+
+  /**
+   * Returns the index of the file the last event from `pollEvent()` refers to.
+   */
+  getEventFileIndex (): number {
+    return this.eventFileIndex
+  }
+
+  /**
+   * Asks the receiver to run a command between files. The receiver answers
+   * with ZCOMPL, reported as `CommandComplete` with `getCommandStatus()`.
+   * @param command - The command line to run, at most `SUBPACKET_MAX_SIZE - 1` bytes as UTF-8
+   */
+  sendCommand (command: string): void {
+    const encoded = new TextEncoder().encode(command)
+    if (this.state !== SendState.ReadyForFile || this.hasOutgoing() || encoded.length >= SUBPACKET_MAX_SIZE) {
+      throw new UnsupportedError()
+    }
+    const result: number[] = []
+    const flags = new Uint8Array(4)
+    flags[ZF0] = Zcommand.ZCACK1
+    result.push(...new Header(this.dataEncoding, Frame.ZCOMMAND, flags).encode(this.escapeTable))
+    result.push(...this.encodeSubpacket(new Uint8Array([...encoded, 0]), SubpacketType.ZCRCW))
+    this.queueControl(result)
+    this.state = SendState.WaitCommandComplete
+  }
+
+  /**
+   * Sends a message for the receiver to show on standard error with ZSTDERR.
+   * Messages are not acknowledged, and can be sent between files or while
+   * waiting for the receiver to acknowledge data or ZEOF.
+   * @param text - The message, at most `SUBPACKET_MAX_SIZE - 1` bytes as UTF-8
+   */
+  sendMessage (text: string): void {
+    const encoded = new TextEncoder().encode(text)
+    if ((this.state !== SendState.ReadyForFile && this.state !== SendState.WaitFileAck &&
+        this.state !== SendState.WaitFileDone) || this.hasOutgoing() || encoded.length >= SUBPACKET_MAX_SIZE) {
+      throw new UnsupportedError()
+    }
+    const result: number[] = []
+    result.push(...new Header(this.dataEncoding, Frame.ZSTDERR).encode(this.escapeTable))
+    result.push(...this.encodeSubpacket(new Uint8Array([...encoded, 0]), SubpacketType.ZCRCW))
+    // Sent outside queueControl: there is no reply, so it must not replace the frame awaiting one
+    this.outgoing.clear()
+    this.outgoing.extend(result)
+    this.outgoingOffset = 0
+  }
+
+  /**
+   * Returns true if the session ended because the remote answered ZFIN with
+   * ZRQINIT. The remote now wants to send, so a `Receiver` should take over.
+   */
+  isRemoteSending (): boolean {
+    return this.remoteSending
+  }
+
+  /**
+   * Returns true once the session is over and no more input is consumed.
+   */
+  isDone (): boolean {
+    return this.state === SendState.Done
+  }
+
+  /**
+   * Returns the exit status from the last ZCOMPL.
+   */
+  getCommandStatus (): number {
+    return this.commandStatus
+  }
+
+  /**
+   * Asks the receiver for its free space between files with ZFREECNT. The
+   * answer is reported as `FreeSpace` with `getFreeSpace()`.
+   */
+  queryFreeSpace (): void {
+    if (this.state !== SendState.ReadyForFile || this.hasOutgoing()) {
+      throw new UnsupportedError()
+    }
+    this.queueControl(new Header(Encoding.ZHEX, Frame.ZFREECNT).encode(this.escapeTable))
+    this.state = SendState.WaitFreeSpace
+  }
+
+  /**
+   * Returns the free space the receiver reported for ZFREECNT, less the files
+   * sent since, or null if it has not been asked. 0xFFFFFFFF means unknown.
+   */
+  getFreeSpace (): number | null {
+    return this.freeSpace
+  }
+
   /**
    * Requests to finish the session after the current file completes.
    */
@@ -257,6 +768,20 @@ export class Sender {
     }
   }
 
+  /**
+   * Cancels the session by queueing the CAN abort sequence for the remote.
+   */
+  cancel (): void {
+    this.outgoing.clear()
+    this.outgoing.extend(CANCEL_SEQUENCE)
+    this.outgoingOffset = 0
+    this.lastFrame = null
+    this.state = SendState.Done
+    this.hasFile = false
+    this.pendingRequest = null
+    this.frameRemaining = 0
+  }
+
   /**
    * Returns a pending file data request, if any.
    */
@@ -269,6 +794,10 @@ export class Sender {
    * @param data - The file data to send
    */
   feedFile (data: Uint8Array): void {
+    if (this.state === SendState.NeedCrcData) {
+      this.feedCrcData(data)
+      return
+    }
     if (this.state !== SendState.NeedFileData) {
       throw new UnsupportedError()
     }
@@ -295,15 +824,35 @@ export class Sender {
     const offset = request.offset
     const nextOffset = offset + data.length
     const remainingAfter = Math.max(0, this.fileSize - nextOffset)
-    const maxLen = Math.min(this.maxSubpacketSize, remainingAfter)
-    const isLastInFrame =
-      this.frameRemaining <= 1 || data.length < request.len || remainingAfter === 0
-    const kind = isLastInFrame ? SubpacketType.ZCRCW : SubpacketType.ZCRCG
-
-    this.queueZdata(offset, data, kind, this.frameNeedsHeader)
+    const maxLen = Math.min(this.dataChunkSize(), remainingAfter)
+    const isLastInFrame = this.window > 0
+      ? data.length < request.len || remainingAfter === 0
+      : this.frameRemaining <= 1 || data.length < request.len || remainingAfter === 0
+    // With a streaming window, ZCRCQ asks for a ZACK every subpacketsPerAck
+    // subpackets and whenever the window fills up
+    const windowFull = this.window > 0 && nextOffset - this.ackedOffset >= this.window
+    const ackDue = this.window > 0 && (this.frameRemaining <= 1 || windowFull)
+    const kind = isLastInFrame
+      ? SubpacketType.ZCRCW
+      : ackDue ? SubpacketType.ZCRCQ : SubpacketType.ZCRCG
+
+    if (this.textMode) {
+      const checkpoint = this.textCheckpoints.get(offset) ?? { wire: offset, prevCr: false }
+      const wireData = toWireText(data, checkpoint.prevCr)
+      this.textCheckpoints.set(nextOffset, {
+        wire: checkpoint.wire + wireData.length,
+        prevCr: data[data.length - 1] === 0x0d
+      })
+      this.queueZdata(checkpoint.wire, wireData, kind, this.frameNeedsHeader)
+    } else {
+      this.queueZdata(offset, data, kind, this.frameNeedsHeader)
+    }
     this.frameNeedsHeader = false
+    this.sentOffset = nextOffset
 
-    if (this.frameRemaining > 0) {
+    if (ackDue) {
+      this.frameRemaining = this.maxSubpacketsPerAck
+    } else if (this.frameRemaining > 0) {
       this.frameRemaining--
     }
 
@@ -311,11 +860,40 @@ export class Sender {
       this.pendingRequest = null
       this.state = SendState.WaitFileAck
       this.frameRemaining = 0
+    } else if (windowFull) {
+      this.pendingRequest = null
+      this.state = SendState.WaitWindow
     } else {
       this.pendingRequest = { offset: nextOffset, len: maxLen }
     }
   }
 
+  private feedCrcData (data: Uint8Array): void {
+    if (this.pendingRequest === null) {
+      throw new UnsupportedError()
+    }
+    if (data.length > this.pendingRequest.len) {
+      throw new UnexpectedEofError()
+    }
+    if (this.hasOutgoing()) {
+      throw new UnsupportedError()
+    }
+
+    this.fileCrc.update(data)
+    this.fileCrcRemaining -= data.length
+
+    // A short read means the file ended early, so the CRC covers what was read
+    if (this.fileCrcRemaining > 0 && data.length === this.pendingRequest.len) {
+      const offset = this.pendingRequest.offset + data.length
+      this.pendingRequest = { offset, len: Math.min(this.maxSubpacketSize, this.fileCrcRemaining) }
+      return
+    }
+
+    this.pendingRequest = null
+    this.queueZcrc(this.fileCrc.finalize())
+    this.state = SendState.WaitFilePos
+  }
+
   /**
    * Feeds incoming wire data into the state machine.
    * @param input - The incoming data
@@ -325,18 +903,30 @@ export class Sender {
     let consumed = 0
 
     while (true) {
-      if (this.hasOutgoing() || this.state === SendState.Done || this.pendingRequest !== null) {
+      // ZACKs are read between subpackets when streaming with a window
+      const streaming = this.window > 0 && this.state === SendState.NeedFileData
+      if (this.hasOutgoing() || this.state === SendState.Done || (this.pendingRequest !== null && !streaming)) {
         break
       }
 
       const before = consumed
-      const header = this.headerReader.read(input, consumed)
-      if (header === null) {
+      const result = this.headerReader.read(input, consumed)
+      if (result === null) {
+        // The header reader buffers a partial header across calls
+        consumed = input.length
         break
       }
-      consumed = header.consumed
+      consumed = result.consumed
+
+      if ('cancelled' in result) {
+        this.onCancelled()
+        break
+      }
+      if ('error' in result) {
+        throw result.error
+      }
 
-      this.handleHeader(header.header)
+      this.handleHeader(result.header)
 
       if (consumed === before || consumed === input.length) {
         break
@@ -358,6 +948,26 @@ export class Sender {
     return data
   }
 
+  /**
+   * Advances the clock and resends the last control frame if the receiver
+   * has not answered it within the timeout.
+   * @param nowMs - The current time in milliseconds, from any monotonic source
+   * @throws TimeoutError if the frame has been resent `maxRetries` times
+   */
+  tick (nowMs: number): void {
+    // The timer only runs while waiting on the receiver. A command may run for
+    // long, so a lost ZCOMMAND is resent when the receiver repeats ZRINIT.
+    if (this.lastFrame === null || this.pendingRequest !== null || this.hasOutgoing() ||
+        this.state === SendState.ReadyForFile || this.state === SendState.Done ||
+        this.state === SendState.WaitCommandComplete) {
+      this.timer.restart()
+      return
+    }
+    if (this.timer.expired(nowMs)) {
+      this.resendLastFrame()
+    }
+  }
+
   /**
    * Advances the outgoing cursor by n bytes.
    * @param n - The number of bytes to advance
@@ -377,27 +987,151 @@ export class Sender {
    * Returns the next pending sender event.
    */
   pollEvent (): SenderEvent | null {
-    const event = this.pendingEvent
-    this.pendingEvent = null
-    return event
+    const next = this.pendingEvents.shift()
+    if (next === undefined) {
+      return null
+    }
+    this.eventFileIndex = next.fileIndex
+    return next.event
+  }
+
+  /**
+   * Returns the current maximum subpacket payload size.
+   */
+  getSubpacketSize (): number {
+    return this.maxSubpacketSize
+  }
+
+  /**
+   * Returns the current number of subpackets between ZACK requests.
+   */
+  getSubpacketsPerAck (): number {
+    return this.maxSubpacketsPerAck
+  }
+
+  /**
+   * Returns the current streaming window in bytes, or 0 if streaming is off.
+   */
+  getStreamingWindow (): number {
+    return this.window
+  }
+
+  /**
+   * Returns the number of times the receiver asked to resend data.
+   */
+  getRetransmitCount (): number {
+    return this.retransmitCount
   }
 
   private hasOutgoing (): boolean {
     return this.outgoingOffset < this.outgoing.length
   }
 
-  private queueZrqinit (): void {
-    const header = ZRQINIT_HEADER.encode()
+  private pushEvent (event: SenderEvent): void {
+    this.pendingEvents.push({ event, fileIndex: this.fileIndex })
+  }
+
+  /**
+   * Returns true if `checkFreeSpace` lets a file of the given size start.
+   */
+  private fitsFreeSpace (size: number): boolean {
+    return !this.checkFreeSpace || this.freeSpace === null || this.freeSpace === UNKNOWN_FREE_SPACE ||
+      size <= this.freeSpace
+  }
+
+  private loadFile (file: FileDescriptor, options: SendFileOptions): void {
+    if (!this.fitsFreeSpace(file.size)) {
+      throw new InsufficientSpaceError(file.size, this.freeSpace ?? 0)
+    }
+    this.fileName = file.name
+    this.fileSize = file.size
+    this.fileMtime = file.mtime ?? 0
+    this.fileMode = file.mode ?? 0
+    this.fileSerial = options.serial ?? 0
+    this.filesRemaining = options.filesRemaining ?? null
+    this.bytesRemaining = options.bytesRemaining ?? null
+    this.textMode = options.text ?? false
+    this.fileConversion = options.conversion ?? (this.textMode ? Zconv.ZCNL : 0)
+    this.textCheckpoints.clear()
+    this.textCheckpoints.set(0, { wire: 0, prevCr: false })
+    this.fileManagement = options.management ?? 0
+    this.fileTransport = options.transport ?? 0
+    this.fileExtended = options.extended ?? 0
+    this.fileIndex++
+    this.hasFile = true
+    this.pendingRequest = null
+    this.frameRemaining = 0
+    this.frameNeedsHeader = false
+  }
+
+  /**
+   * Loads the next queued file that fits the free space, refusing the ones
+   * before it. Returns false if the queue ran out.
+   */
+  private loadNextFile (): boolean {
+    let file: FileDescriptor | undefined
+    while ((file = this.fileQueue.shift()) !== undefined) {
+      if (this.fitsFreeSpace(file.size)) {
+        // Counts include the file being offered
+        this.loadFile(file, {
+          filesRemaining: this.fileQueue.length + 1,
+          bytesRemaining: this.fileQueue.reduce((total, queued) => total + queued.size, file.size)
+        })
+        return true
+      }
+      this.fileIndex++
+      this.pushEvent(SenderEvent.FileRefused)
+    }
+    return false
+  }
+
+  private startNextFileOrFinish (): void {
+    if (this.loadNextFile()) {
+      this.queueZfile()
+      this.state = SendState.WaitFilePos
+    } else if (this.finishRequested) {
+      this.queueZfin()
+      this.state = SendState.WaitFinish
+    } else {
+      this.state = SendState.ReadyForFile
+    }
+  }
+
+  /**
+   * Queues a control frame and remembers it for retransmission on ZNAK.
+   */
+  private queueControl (frame: Uint8Array | number[]): void {
     this.outgoing.clear()
-    this.outgoing.extend(header)
+    this.outgoing.extend(frame)
+    this.outgoingOffset = 0
+    this.lastFrame = new Uint8Array(frame)
+    this.retries = 0
+    this.timer.restart()
+  }
+
+  private resendLastFrame (): void {
+    if (this.lastFrame === null) {
+      return
+    }
+    this.outgoing.clear()
+    this.outgoing.extend(this.lastFrame)
     this.outgoingOffset = 0
   }
 
+  private queueZrqinit (): void {
+    this.queueControl(ZRQINIT_HEADER.encode(this.escapeTable))
+  }
+
   private queueZfile (): void {
     const result: number[] = []
 
-    // Write ZFILE header
-    const header = new Header(Encoding.ZBIN32, Frame.ZFILE).encode()
+    // Write ZFILE header, carrying the conversion, management, transport and extended options
+    const flags = new Uint8Array(4)
+    flags[ZF0] = this.fileConversion
+    flags[ZF1] = this.fileManagement
+    flags[ZF2] = this.fileTransport
+    flags[ZF3] = this.fileExtended
+    const header = new Header(this.dataEncoding, Frame.ZFILE, flags).encode(this.escapeTable)
     result.push(...header)
 
     // Build file info - use UTF-8 encoding for filename to support non-ASCII characters
@@ -407,91 +1141,152 @@ export class Sender {
       fileInfo.push(nameBytes[i])
     }
     fileInfo.push(0) // null terminator
-    const sizeStr = this.fileSize.toString()
-    for (let i = 0; i < sizeStr.length; i++) {
-      fileInfo.push(sizeStr.charCodeAt(i))
-    }
-    // Include modification time as octal Unix timestamp (space-separated per ZMODEM spec)
-    if (this.fileMtime > 0) {
-      fileInfo.push(0x20) // space
-      const mtimeStr = Math.floor(this.fileMtime / 1000).toString(8)
-      for (let i = 0; i < mtimeStr.length; i++) {
-        fileInfo.push(mtimeStr.charCodeAt(i))
+    // Space-separated per ZMODEM spec: size, octal mtime, octal mode, octal serial,
+    // files remaining and bytes remaining. Trailing fields that are not known are left out.
+    const fields: Array<[string, boolean]> = [
+      [this.fileSize.toString(), true],
+      [Math.floor(this.fileMtime / 1000).toString(8), this.fileMtime > 0],
+      [this.fileMode.toString(8), this.fileMode > 0],
+      [this.fileSerial.toString(8), this.fileSerial > 0],
+      [(this.filesRemaining ?? 0).toString(), this.filesRemaining !== null],
+      [(this.bytesRemaining ?? 0).toString(), this.bytesRemaining !== null]
+    ]
+    let fieldCount = 1
+    fields.forEach(([, present], i) => {
+      if (present) {
+        fieldCount = i + 1
       }
+    })
+    const infoStr = fields.slice(0, fieldCount).map(([text]) => text).join(' ')
+    for (let i = 0; i < infoStr.length; i++) {
+      fileInfo.push(infoStr.charCodeAt(i))
     }
     fileInfo.push(0) // null terminator
 
     // Write subpacket with ZCRCW
-    const escaped = writeSliceEscaped(new Uint8Array(fileInfo))
-    result.push(...escaped)
-    result.push(ZDLE)
-    result.push(SubpacketType.ZCRCW)
-
-    // CRC32
-    const crc = new Crc32()
-    crc.update(new Uint8Array(fileInfo))
-    crc.updateByte(SubpacketType.ZCRCW)
-    const crcValue = crc.finalize()
-    const crcBytes = new Uint8Array([
-      crcValue & 0xFF,
-      (crcValue >> 8) & 0xFF,
-      (crcValue >> 16) & 0xFF,
-      (crcValue >> 24) & 0xFF
-    ])
-    result.push(...writeSliceEscaped(crcBytes))
+    result.push(...this.encodeSubpacket(new Uint8Array(fileInfo), SubpacketType.ZCRCW))
 
-    this.outgoing.clear()
-    this.outgoing.extend(result)
-    this.outgoingOffset = 0
+    this.queueControl(result)
   }
 
   private queueZdata (offset: number, data: Uint8Array, kind: SubpacketType, includeHeader: boolean): void {
     const result: number[] = []
 
     if (includeHeader) {
-      const header = ZDATA_HEADER.withCount(offset).encode()
+      const header = new Header(this.dataEncoding, Frame.ZDATA).withCount(offset).encode(this.escapeTable)
       result.push(...header)
+      // Lost data is recovered by the receiver with ZRPOS rather than ZNAK
+      this.lastFrame = null
     }
 
-    // Write escaped data
-    result.push(...writeSliceEscaped(data))
-    result.push(ZDLE)
-    result.push(kind)
-
-    // CRC32
-    const crc = new Crc32()
-    crc.update(data)
-    crc.updateByte(kind)
-    const crcValue = crc.finalize()
-    const crcBytes = new Uint8Array([
-      crcValue & 0xFF,
-      (crcValue >> 8) & 0xFF,
-      (crcValue >> 16) & 0xFF,
-      (crcValue >> 24) & 0xFF
-    ])
-    result.push(...writeSliceEscaped(crcBytes))
+    result.push(...this.encodeSubpacket(data, kind))
 
     this.outgoing.clear()
     this.outgoing.extend(result)
     this.outgoingOffset = 0
   }
 
+  /**
+   * Encodes a subpacket: the escaped data, ZDLE and the subpacket type,
+   * then the escaped CRC of the data encoding in use.
+   */
+  private encodeSubpacket (data: Uint8Array, kind: SubpacketType): number[] {
+    const result: number[] = []
+    result.push(...writeSliceEscaped(data, this.escapeTable))
+    result.push(ZDLE)
+    result.push(kind)
+
+    let crcBytes: Uint8Array
+    if (this.dataEncoding === Encoding.ZBIN32) {
+      const crc = new Crc32()
+      crc.update(data)
+      crc.updateByte(kind)
+      const crcValue = crc.finalize()
+      crcBytes = new Uint8Array([
+        crcValue & 0xFF,
+        (crcValue >> 8) & 0xFF,
+        (crcValue >> 16) & 0xFF,
+        (crcValue >> 24) & 0xFF
+      ])
+    } else {
+      // CRC-16 is sent big-endian
+      const crc = new Crc16()
+      crc.update(data)
+      crc.updateByte(kind)
+      const crcValue = crc.finalize()
+      crcBytes = new Uint8Array([(crcValue >> 8) & 0xFF, crcValue & 0xFF])
+    }
+    result.push(...writeSliceEscaped(crcBytes, this.escapeTable))
+    return result
+  }
+
   private queueZeof (offset: number): void {
-    const header = ZEOF_HEADER.withCount(offset).encode()
-    this.outgoing.clear()
-    this.outgoing.extend(header)
-    this.outgoingOffset = 0
+    const wireOffset = this.textMode ? this.textCheckpoints.get(offset)?.wire ?? offset : offset
+    this.queueControl(new Header(this.dataEncoding, Frame.ZEOF).withCount(wireOffset).encode(this.escapeTable))
+  }
+
+  /**
+   * Returns the file bytes requested per subpacket. Text data can double in
+   * size on the wire, so text transfers ask for half a subpacket.
+   */
+  private dataChunkSize (): number {
+    return this.textMode ? Math.max(1, Math.floor(this.maxSubpacketSize / 2)) : this.maxSubpacketSize
+  }
+
+  /**
+   * Maps a wire offset from ZRPOS or ZACK to a file offset. Offsets that are
+   * not a subpacket start fall back to the closest earlier one.
+   */
+  private fileOffsetOf (wireOffset: number): number {
+    if (!this.textMode) {
+      return wireOffset
+    }
+    let best = 0
+    let bestWire = -1
+    for (const [fileOffset, checkpoint] of this.textCheckpoints) {
+      if (checkpoint.wire <= wireOffset && checkpoint.wire > bestWire) {
+        best = fileOffset
+        bestWire = checkpoint.wire
+      }
+    }
+    return best
+  }
+
+  /**
+   * Returns the file offset of the text subpacket starting at a wire offset,
+   * or null if no subpacket starts there.
+   */
+  private textFileOffset (wireOffset: number): number | null {
+    for (const [fileOffset, checkpoint] of this.textCheckpoints) {
+      if (checkpoint.wire === wireOffset) {
+        return fileOffset
+      }
+    }
+    return null
+  }
+
+  /**
+   * Forgets text checkpoints before the acknowledged offset, which the
+   * receiver never asks for again. The file start is kept for a restart.
+   */
+  private pruneTextCheckpoints (): void {
+    for (const fileOffset of this.textCheckpoints.keys()) {
+      if (fileOffset > 0 && fileOffset < this.ackedOffset) {
+        this.textCheckpoints.delete(fileOffset)
+      }
+    }
   }
 
   private queueZfin (): void {
-    const header = ZFIN_HEADER.encode()
-    this.outgoing.clear()
-    this.outgoing.extend(header)
-    this.outgoingOffset = 0
+    this.queueControl(ZFIN_HEADER.encode(this.escapeTable))
+  }
+
+  private queueZcrc (crc: number): void {
+    this.queueControl(ZCRC_HEADER.withCount(crc).encode(this.escapeTable))
   }
 
   private queueNak (): void {
-    const header = ZNAK_HEADER.encode()
+    const header = ZNAK_HEADER.encode(this.escapeTable)
     this.outgoing.clear()
     this.outgoing.extend(header)
     this.outgoingOffset = 0
@@ -501,6 +1296,7 @@ export class Sender {
     this.outgoing.clear()
     this.outgoing.extend([0x4f, 0x4f]) // "OO"
     this.outgoingOffset = 0
+    this.lastFrame = null
   }
 
   private handleHeader (header: Header): void {
@@ -508,13 +1304,78 @@ export class Sender {
       case Frame.ZRINIT:
         this.onZrinit(header)
         break
-      case Frame.ZRPOS:
-      case Frame.ZACK:
-        this.onZrpos(header.count)
+      case Frame.ZRPOS: {
+        if (this.textMode && this.isFileState() && this.textFileOffset(header.count) === null) {
+          // No subpacket starts there: the receiver tried to resume a text file
+          this.cancel()
+          throw new UnsupportedError()
+        }
+        const offset = this.fileOffsetOf(header.count)
+        if (this.isSendingData() && offset < this.sentOffset) {
+          this.recordRetransmit()
+        }
+        this.onZrpos(offset)
+        break
+      }
+      case Frame.ZACK: {
+        if (this.state === SendState.WaitZsinitAck) {
+          this.zsinitDone = true
+          this.startSession()
+          break
+        }
+        if (this.state === SendState.WaitFreeSpace) {
+          this.freeSpace = header.count
+          this.pushEvent(SenderEvent.FreeSpace)
+          this.startNextFileOrFinish()
+          break
+        }
+        const offset = this.fileOffsetOf(header.count)
+        if (this.window > 0) {
+          this.onZack(offset)
+        } else {
+          if (this.state === SendState.WaitFileAck && offset === this.sentOffset) {
+            this.recordCleanWindow()
+          }
+          this.onZrpos(offset)
+        }
+        break
+      }
+      case Frame.ZSKIP:
+        this.onZskip()
+        break
+      case Frame.ZCRC:
+        this.onZcrc(header.count)
+        break
+      case Frame.ZCOMPL:
+        if (this.state === SendState.WaitCommandComplete) {
+          this.commandStatus = header.count
+          this.pushEvent(SenderEvent.CommandComplete)
+          this.startNextFileOrFinish()
+        }
         break
       case Frame.ZFIN:
         this.onZfin()
         break
+      case Frame.ZNAK:
+        this.onZnak()
+        break
+      case Frame.ZABORT:
+        this.onZabort()
+        break
+      case Frame.ZFERR:
+        this.onZferr()
+        break
+      case Frame.ZRQINIT:
+        if (this.state === SendState.WaitFinish) {
+          // The remote answers our ZFIN by starting to send, as `sz` followed by `rz` does
+          this.lastFrame = null
+          this.remoteSending = true
+          this.state = SendState.Done
+          this.pushEvent(SenderEvent.SessionComplete)
+        } else if (this.state === SendState.WaitReceiverInit) {
+          this.queueZrqinit()
+        }
+        break
       default:
         if (this.state === SendState.WaitReceiverInit) {
           this.queueZrqinit()
@@ -526,48 +1387,141 @@ export class Sender {
     this.updateReceiverCaps(header)
     switch (this.state) {
       case SendState.WaitReceiverInit:
-        if (this.hasFile) {
-          this.queueZfile()
-          this.state = SendState.WaitFilePos
+        if (!this.zsinitDone && (this.zsinitFlags !== 0 || this.attention.length > 0)) {
+          this.queueZsinit()
+          this.state = SendState.WaitZsinitAck
         } else {
-          this.state = SendState.ReadyForFile
-          if (this.finishRequested) {
-            this.queueZfin()
-            this.state = SendState.WaitFinish
-          }
+          this.startSession()
         }
         break
+      case SendState.WaitZsinitAck:
+      case SendState.WaitCommandComplete:
+      case SendState.WaitFreeSpace:
+        // The receiver timed out waiting for ZSINIT, ZCOMMAND or ZFREECNT
+        this.resendLastFrame()
+        break
       case SendState.WaitFileDone:
-        this.pendingEvent = SenderEvent.FileComplete
-        this.hasFile = false
-        if (this.finishRequested) {
-          this.queueZfin()
-          this.state = SendState.WaitFinish
-        } else {
-          this.state = SendState.ReadyForFile
+        this.pushEvent(SenderEvent.FileComplete)
+        if (this.freeSpace !== null && this.freeSpace !== UNKNOWN_FREE_SPACE) {
+          this.freeSpace = Math.max(0, this.freeSpace - this.fileSize)
         }
+        this.hasFile = false
+        this.startNextFileOrFinish()
         break
       case SendState.WaitFinish:
         this.queueOo()
         this.state = SendState.Done
-        this.pendingEvent = SenderEvent.SessionComplete
+        this.pushEvent(SenderEvent.SessionComplete)
         break
     }
   }
 
+  private startSession (): void {
+    if (this.hasFile) {
+      this.queueZfile()
+      this.state = SendState.WaitFilePos
+    } else {
+      this.state = SendState.ReadyForFile
+      if (this.finishRequested) {
+        this.queueZfin()
+        this.state = SendState.WaitFinish
+      }
+    }
+  }
+
+  private queueZsinit (): void {
+    const result: number[] = []
+    const flags = new Uint8Array(4)
+    flags[ZF0] = this.zsinitFlags
+    result.push(...new Header(this.dataEncoding, Frame.ZSINIT, flags).encode(this.escapeTable))
+    result.push(...this.encodeSubpacket(new Uint8Array([...this.attention, 0]), SubpacketType.ZCRCW))
+    this.queueControl(result)
+  }
+
   private updateReceiverCaps (header: Header): void {
     const flags = header.flags
     // Caps is in flags[3], not (flags[2] | flags[3] << 8)
     // This matches the Rust implementation
     const caps = flags[3]
     const canOvio = (caps & Zrinit.CANOVIO) !== 0
+    const canFdx = (caps & Zrinit.CANFDX) !== 0
+    // Receive buffer size in ZP0/ZP1, 0 means the receiver can take a continuous stream
+    const rxBufSize = flags[0] | (flags[1] << 8)
+
+    // Fall back to CRC-16 for receivers that only speak ZBIN
+    this.dataEncoding = this.crc16 || (caps & Zrinit.CANFC32) === 0 ? Encoding.ZBIN : Encoding.ZBIN32
+
+    this.escapeTable = createEscapeTable(
+      this.escapeControl || (caps & Zrinit.ESCCTL) !== 0,
+      this.escape8 || (caps & Zrinit.ESC8) !== 0
+    )
+
+    // Streaming needs a receiver that answers ZCRCQ while data keeps arriving
+    this.baseWindow = canFdx ? this.streamingWindow : 0
+
+    if (this.flowControl === FlowControl.Strict) {
+      // Never send more than the receiver can buffer before a ZCRCW, and
+      // wait for each ZACK if it cannot read while writing to disk or the line
+      this.baseSubpacketSize = rxBufSize > 0 ? Math.min(this.subpacketSize, rxBufSize) : this.subpacketSize
+      const perAck = canOvio && canFdx ? this.subpacketsPerAck : 1
+      this.baseSubpacketsPerAck = rxBufSize > 0
+        ? Math.max(1, Math.min(perAck, Math.floor(rxBufSize / this.baseSubpacketSize)))
+        : perAck
+      if (rxBufSize > 0) {
+        this.baseWindow = Math.min(this.baseWindow, rxBufSize)
+      }
+    } else {
+      // Always use the configured subpacket size for efficiency
+      this.baseSubpacketSize = this.subpacketSize
+
+      // Stream the configured number of subpackets if receiver supports overlapped I/O
+      // Ignore rx_buf_size limitation as it's mainly for flow control, not throughput
+      this.baseSubpacketsPerAck = canOvio ? this.subpacketsPerAck : 1
+    }
 
-    // Always use the maximum subpacket size for efficiency
-    this.maxSubpacketSize = SUBPACKET_MAX_SIZE
+    // Sizes shrunk on a noisy line stay shrunk for the next file
+    this.applyAdaptation()
+  }
 
-    // Use our optimized SUBPACKET_PER_ACK if receiver supports overlapped I/O
-    // Ignore rx_buf_size limitation as it's mainly for flow control, not throughput
-    this.maxSubpacketsPerAck = canOvio ? SUBPACKET_PER_ACK : 1
+  /**
+   * Derives the current sizes from the negotiated ones, halved once per adaptation level.
+   */
+  private applyAdaptation (): void {
+    const factor = 2 ** this.adaptLevel
+    this.maxSubpacketSize = Math.max(
+      Math.min(MIN_SUBPACKET_SIZE, this.baseSubpacketSize),
+      Math.floor(this.baseSubpacketSize / factor)
+    )
+    this.maxSubpacketsPerAck = Math.max(1, Math.floor(this.baseSubpacketsPerAck / factor))
+    this.window = this.baseWindow > 0
+      ? Math.max(this.maxSubpacketSize, Math.floor(this.baseWindow / factor))
+      : 0
+  }
+
+  private recordRetransmit (): void {
+    this.retransmitCount++
+    this.retransmitRun++
+    this.cleanRun = 0
+    if (!this.adaptive || this.retransmitRun < ADAPT_SHRINK_AFTER) {
+      return
+    }
+    this.retransmitRun = 0
+    // Stop once nothing can shrink any further
+    if (this.maxSubpacketSize > MIN_SUBPACKET_SIZE || this.maxSubpacketsPerAck > 1) {
+      this.adaptLevel++
+      this.applyAdaptation()
+    }
+  }
+
+  private recordCleanWindow (): void {
+    this.retransmitRun = 0
+    this.cleanRun++
+    if (!this.adaptive || this.cleanRun < ADAPT_GROW_AFTER || this.adaptLevel === 0) {
+      return
+    }
+    this.cleanRun = 0
+    this.adaptLevel--
+    this.applyAdaptation()
   }
 
   private onZrpos (offset: number): void {
@@ -578,16 +1532,22 @@ export class Sender {
       case SendState.WaitFilePos:
       case SendState.WaitFileAck:
       case SendState.NeedFileData:
+      case SendState.WaitWindow:
+        this.sentOffset = offset
+        this.ackedOffset = offset
+        if (this.textMode) {
+          this.pruneTextCheckpoints()
+        }
         if (offset >= this.fileSize) {
           this.queueZeof(offset)
           this.state = SendState.WaitFileDone
           this.pendingRequest = null
         } else {
           const remaining = this.fileSize - offset
-          const maxSubpackets = Math.ceil(remaining / this.maxSubpacketSize)
+          const maxSubpackets = Math.ceil(remaining / this.dataChunkSize())
           this.frameRemaining = Math.min(this.maxSubpacketsPerAck, maxSubpackets)
           this.frameNeedsHeader = true
-          const len = Math.min(this.maxSubpacketSize, remaining)
+          const len = Math.min(this.dataChunkSize(), remaining)
           this.pendingRequest = { offset, len }
           this.state = SendState.NeedFileData
         }
@@ -595,17 +1555,151 @@ export class Sender {
     }
   }
 
+  private isFileState (): boolean {
+    return this.state === SendState.WaitFilePos || this.isSendingData()
+  }
+
+  private isSendingData (): boolean {
+    return this.state === SendState.NeedFileData || this.state === SendState.WaitWindow ||
+      this.state === SendState.WaitFileAck
+  }
+
+  private onZack (offset: number): void {
+    switch (this.state) {
+      case SendState.NeedFileData:
+      case SendState.WaitWindow:
+        if (offset > this.ackedOffset && offset <= this.sentOffset) {
+          this.recordCleanWindow()
+        }
+        this.ackedOffset = Math.max(this.ackedOffset, Math.min(offset, this.sentOffset))
+        if (this.textMode) {
+          this.pruneTextCheckpoints()
+        }
+        if (this.state === SendState.WaitWindow && this.sentOffset - this.ackedOffset < this.window) {
+          const len = Math.min(this.dataChunkSize(), this.fileSize - this.sentOffset)
+          this.pendingRequest = { offset: this.sentOffset, len }
+          this.state = SendState.NeedFileData
+        }
+        break
+      case SendState.WaitFileAck:
+        // Acknowledgements of earlier ZCRCQ subpackets may arrive after the final ZCRCW
+        if (offset >= this.sentOffset) {
+          this.recordCleanWindow()
+          this.onZrpos(offset)
+        }
+        break
+      default:
+        this.onZrpos(offset)
+    }
+  }
+
+  private onZcrc (length: number): void {
+    if (this.state !== SendState.WaitFilePos) {
+      return
+    }
+    // A zero length asks for the CRC of the whole file
+    const len = length === 0 ? this.fileSize : Math.min(length, this.fileSize)
+    this.fileCrc.reset()
+    this.fileCrcRemaining = len
+    if (len === 0) {
+      this.queueZcrc(this.fileCrc.finalize())
+      return
+    }
+    this.pendingRequest = { offset: 0, len: Math.min(this.maxSubpacketSize, len) }
+    this.state = SendState.NeedCrcData
+  }
+
+  private onZskip (): void {
+    switch (this.state) {
+      case SendState.WaitFilePos:
+      case SendState.NeedCrcData:
+      case SendState.WaitFileAck:
+      case SendState.NeedFileData:
+      case SendState.WaitWindow:
+      case SendState.WaitFileDone:
+        this.pushEvent(SenderEvent.FileSkipped)
+        this.hasFile = false
+        this.pendingRequest = null
+        this.frameRemaining = 0
+        this.frameNeedsHeader = false
+        this.startNextFileOrFinish()
+        break
+    }
+  }
+
   private onZfin (): void {
     if (this.state === SendState.WaitFinish) {
       this.queueOo()
       this.state = SendState.Done
-      this.pendingEvent = SenderEvent.SessionComplete
+      this.pushEvent(SenderEvent.SessionComplete)
+    }
+  }
+
+  /**
+   * The receiver ends the batch: drop the file and close the session with
+   * ZFIN, which the host may keep pumping to complete.
+   */
+  private onZabort (): void {
+    if (this.state === SendState.Done) {
+      return
+    }
+    this.stopFile()
+    this.fileQueue.length = 0
+    this.queueZfin()
+    this.state = SendState.WaitFinish
+    throw new RemoteAbortError()
+  }
+
+  private onZferr (): void {
+    if (this.state === SendState.Done) {
+      return
+    }
+    this.stopFile()
+    this.lastFrame = null
+    this.state = SendState.Done
+    throw new RemoteFileError()
+  }
+
+  private stopFile (): void {
+    this.hasFile = false
+    this.pendingRequest = null
+    this.frameRemaining = 0
+    this.frameNeedsHeader = false
+  }
+
+  private onZnak (): void {
+    if (this.lastFrame === null && this.state === SendState.WaitReceiverInit) {
+      this.queueZrqinit()
+      return
+    }
+    // Nothing is awaiting a reply between files
+    if (this.lastFrame === null || this.state === SendState.ReadyForFile || this.state === SendState.Done) {
+      return
+    }
+    if (this.retries >= this.maxRetries) {
+      throw new TooManyRetriesError(this.retries)
     }
+    this.retries++
+    this.resendLastFrame()
+  }
+
+  private onCancelled (): void {
+    this.lastFrame = null
+    this.state = SendState.Done
+    this.hasFile = false
+    this.pendingRequest = null
+    this.frameRemaining = 0
+    this.pushEvent(SenderEvent.SessionCancelled)
   }
 }
 
 /**
  * ZMODEM receiver state machine.
+ *
+ * Every frame the receiver sends is a hex header, which ZMODEM never
+ * ZDLE-escapes, so the TESCCTL and TESC8 flags of a ZSINIT do not change its
+ * output. They are reported by `getRemoteEscaping()` for the host to honour
+ * in what else it sends, such as a later `Sender` on the same line.
  */
 export class Receiver {
   private state: RecvState = RecvState.SessionBegin
@@ -613,6 +1707,29 @@ export class Receiver {
   private fileName: string = ''
   private fileSize: number = 0
   private fileMtime: number = 0
+  private fileMode: number = 0
+  private fileSerial: number = 0
+  private filesRemaining: number = 0
+  private bytesRemaining: number = 0
+  private fileConversion: number = 0
+  private fileManagement: number = 0
+  private fileTransport: number = 0
+  private fileExtended: number = 0
+  private readonly lineEnding: LineEnding
+  private attention: Uint8Array = new Uint8Array(0)
+  private remoteEscaping: number = 0
+  // ZF0 of the ZSINIT being read, applied once its subpacket passes the CRC check
+  private zsinitFlags: number = 0
+  private sessionReturnState: RecvState = RecvState.SessionBegin
+  private readonly commandPolicy: ((command: string) => boolean) | null
+  private command: string = ''
+  // The last answered command, kept to answer a resend without running it again.
+  // `resendable` is set once we sent ZRINIT or ZNAK, which makes the sender resend.
+  private lastCommand: { command: string, status: number, resendable: boolean } | null = null
+  private message: string = ''
+  private readonly freeSpace: (() => number) | null
+  private resumeLength: number = 0
+  private resumeCrc: ((length: number) => number) | null = null
   private readonly buf: Buffer = new Buffer(SUBPACKET_MAX_SIZE)
   private bufWriteOffset: number = 0
   private dataEncoding: Encoding = Encoding.ZBIN
@@ -620,21 +1737,45 @@ export class Receiver {
   private subpacketState: SubpacketState = SubpacketState.Idle
   private subpacketType: SubpacketType = SubpacketType.ZCRCG
   private subpacketEscapePending: boolean = false
+  // A ZSINIT, ZCOMMAND or ZSTDERR subpacket outgrew the buffer and is read to its end unstored
+  private subpacketOverflow: boolean = false
   private crcEscapePending: boolean = false // Separate escape state for CRC reading (like Rust's RxCrc)
   private crcBytesRead: number = 0 // Number of CRC bytes read so far (persists across calls)
   private crcBuf: number[] = [] // Partial CRC bytes (persists across calls)
   private crc16: Crc16 = new Crc16()
   private crc32: Crc32 = new Crc32()
+  private readonly cancelDetector: CancelDetector = new CancelDetector()
   private readonly outgoing: Buffer = new Buffer(WIRE_BUF_SIZE)
   private outgoingOffset: number = 0
   private pendingEvents: Array<ReceiverEvent | null> = [null, null, null, null]
   private pendingEventHead: number = 0
   private pendingEventLen: number = 0
+  private readonly maxErrors: number
+  private readonly timer: RetryTimer
+  private readonly bufferSize: number
+  private readonly capabilities: number
+  private readonly maxFileSize: number
+  private dataErrors: number = 0
+  private headerErrors: number = 0
+  private consecutiveErrors: number = 0
 
   /**
    * Creates a new receiver instance.
+   * @param options - Receiver options (optional)
    */
-  constructor () {
+  constructor (options: ReceiverOptions = {}) {
+    this.maxErrors = options.maxErrors ?? MAX_CONSECUTIVE_ERRORS
+    this.timer = new RetryTimer(options.timeout ?? DEFAULT_TIMEOUT_MS, options.maxRetries ?? MAX_RETRIES)
+    this.bufferSize = options.bufferSize ?? SUBPACKET_MAX_SIZE
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize < 0 || this.bufferSize > 0xFFFF) {
+      throw new UnsupportedError()
+    }
+    // Include CANOVIO flag by default to enable overlapped I/O for better throughput
+    this.capabilities = options.capabilities ?? (Zrinit.CANFDX | Zrinit.CANOVIO | Zrinit.CANFC32)
+    this.maxFileSize = options.maxFileSize ?? Infinity
+    this.lineEnding = options.lineEnding ?? LineEnding.Lf
+    this.commandPolicy = options.commandPolicy ?? null
+    this.freeSpace = options.freeSpace ?? null
     this.queueZrinit()
   }
 
@@ -647,13 +1788,16 @@ export class Receiver {
     let consumed = 0
 
     while (true) {
-      if (this.hasFileData() || this.pendingEventsFull()) {
+      if (this.hasFileData() || this.pendingEventsFull() || this.state === RecvState.FileAwaitingDecision ||
+          this.state === RecvState.CommandAwaitingStatus) {
         break
       }
 
       const before = consumed
 
-      if (this.state === RecvState.FileReadingSubpacket || this.state === RecvState.FileReadingMetadata) {
+      if (this.state === RecvState.FileReadingSubpacket || this.state === RecvState.FileReadingMetadata ||
+          this.state === RecvState.SessionReadingZsinit || this.state === RecvState.SessionReadingCommand ||
+          this.state === RecvState.SessionReadingMessage) {
         const result = this.processSubpacket(input, consumed)
         if (result.done) {
           consumed = result.consumed
@@ -670,13 +1814,24 @@ export class Receiver {
         }
       }
 
-      const header = this.headerReader.read(input, consumed)
-      if (header === null) {
+      const result = this.headerReader.read(input, consumed)
+      if (result === null) {
+        // The header reader buffers a partial header across calls
+        consumed = input.length
         break
       }
-      consumed = header.consumed
+      consumed = result.consumed
 
-      this.handleHeader(header.header)
+      if ('cancelled' in result) {
+        this.onCancelled()
+        break
+      }
+      if ('error' in result) {
+        this.onHeaderError(result.error)
+        break
+      }
+
+      this.handleHeader(result.header)
 
       if (this.pendingEventsFull()) {
         break
@@ -692,6 +1847,10 @@ export class Receiver {
       }
     }
 
+    if (consumed > 0) {
+      this.timer.restart()
+    }
+
     return consumed
   }
 
@@ -707,6 +1866,59 @@ export class Receiver {
     return data
   }
 
+  /**
+   * Advances the clock and asks the sender to resend if the line has been
+   * silent for the timeout: ZRINIT before a file, ZNAK for ZSINIT, ZCOMMAND and ZFILE, ZCRC during
+   * resume verification and ZRPOS during the data phase.
+   * @param nowMs - The current time in milliseconds, from any monotonic source
+   * @throws TimeoutError if the line stays silent for `maxRetries` resends
+   */
+  tick (nowMs: number): void {
+    // The timer only runs while waiting on the sender
+    if (this.hasOutgoing() || this.hasFileData() ||
+        this.state === RecvState.FileAwaitingDecision || this.state === RecvState.CommandAwaitingStatus ||
+        this.state === RecvState.SessionEnd) {
+      this.timer.restart()
+      return
+    }
+    if (!this.timer.expired(nowMs)) {
+      return
+    }
+    switch (this.state) {
+      case RecvState.SessionBegin:
+      case RecvState.FileBegin:
+        this.queueZrinit()
+        this.markCommandResendable()
+        break
+      case RecvState.SessionReadingZsinit:
+      case RecvState.SessionReadingCommand:
+        this.endSubpacket()
+        this.state = this.sessionReturnState
+        this.queueNak()
+        break
+      case RecvState.SessionReadingMessage:
+        // Messages are not resent, so a partial one is dropped
+        this.endSubpacket()
+        this.state = this.sessionReturnState
+        break
+      case RecvState.FileReadingMetadata:
+        this.endSubpacket()
+        this.state = RecvState.FileBegin
+        this.queueNak()
+        break
+      case RecvState.FileVerifyingCrc:
+        this.queueZcrc(this.resumeLength)
+        break
+      case RecvState.FileReadingSubpacket:
+      case RecvState.FileWaitingSubpacket:
+        // Drop any partial subpacket and resume from the last good offset
+        this.endSubpacket()
+        this.state = RecvState.FileWaitingSubpacket
+        this.queueZrpos(this.count, true)
+        break
+    }
+  }
+
   /**
    * Advances the outgoing cursor by n bytes.
    * @param n - The number of bytes to advance
@@ -725,13 +1937,14 @@ export class Receiver {
   /**
    * Returns pending file data bytes and automatically advances the buffer.
    * This matches the WASM behavior where drain automatically advances.
+   * Files sent with `Zconv.ZCNL` are returned with the local line ending.
    */
   drainFile (): Uint8Array {
     if (this.subpacketState === SubpacketState.Writing) {
       const data = this.buf.slice(this.bufWriteOffset)
       // Auto-advance and finish subpacket to match WASM behavior
       this.finishSubpacket(this.subpacketType)
-      return data
+      return this.isTextFile() ? fromWireText(data, this.lineEnding) : data
     }
     return new Uint8Array(0)
   }
@@ -763,6 +1976,141 @@ export class Receiver {
     return this.popEvent()
   }
 
+  /**
+   * Cancels the session by queueing the CAN abort sequence for the remote.
+   */
+  cancel (): void {
+    this.outgoing.clear()
+    this.outgoing.extend(CANCEL_SEQUENCE)
+    this.outgoingOffset = 0
+    this.endSubpacket()
+    this.state = RecvState.SessionEnd
+  }
+
+  /**
+   * Accepts the file offered by the last `FileStart` event.
+   * @param offset - The offset to start receiving from (non-zero to resume a partial file)
+   * @throws UnsupportedError if resuming a text (`Zconv.ZCNL`) file, which has no file offsets on the wire
+   */
+  acceptFile (offset: number = 0): void {
+    if (this.state !== RecvState.FileAwaitingDecision || (offset !== 0 && this.isTextFile())) {
+      throw new UnsupportedError()
+    }
+    this.count = offset
+    this.queueZrpos(offset)
+    // Wait for ZDATA, or ZEOF directly when a resumed file is already complete
+    this.state = RecvState.FileWaitingSubpacket
+  }
+
+  /**
+   * Resumes the file offered by the last `FileStart` event after checking that
+   * the local partial file matches the sender's file. The receiver asks the
+   * sender for the CRC-32 of the first `length` bytes and compares it with
+   * `localCrc(length)`. On a match the transfer continues from `length`,
+   * otherwise `ResumeRejected` is emitted and the transfer restarts from 0.
+   * @param length - The length of the local partial file
+   * @param localCrc - Returns the CRC-32 of the first `length` bytes of the local file
+   * @throws UnsupportedError if resuming a text (`Zconv.ZCNL`) file
+   */
+  resumeFile (length: number, localCrc: (length: number) => number): void {
+    if (this.state !== RecvState.FileAwaitingDecision || (length !== 0 && this.isTextFile())) {
+      throw new UnsupportedError()
+    }
+    if (length === 0) {
+      this.acceptFile(0)
+      return
+    }
+    this.resumeLength = length
+    this.resumeCrc = localCrc
+    this.queueZcrc(length)
+    this.state = RecvState.FileVerifyingCrc
+  }
+
+  /**
+   * Accepts, resumes or skips the file offered by the last `FileStart` event
+   * following the sender's conversion and management options, the way `rz`
+   * handles `sz -a`, `sz -n` and friends. Unknown modification times count as
+   * different, so the file is transferred. Text files are never resumed.
+   * @param local - The local copy of the file, or null if there is none
+   * @returns What the host should do with the received data
+   */
+  decideFile (local: LocalFile | null): FileAction {
+    const management = this.fileManagement & Zmanage.ZMMASK
+    if (local === null) {
+      if ((this.fileManagement & Zmanage.ZMSKNOLOC) !== 0) {
+        this.skipFile()
+        return FileAction.Skip
+      }
+      this.acceptFile()
+      return FileAction.Write
+    }
+
+    if (this.fileConversion === Zconv.ZCRESUM && local.size < this.fileSize &&
+        management !== Zmanage.ZMCLOB && management !== Zmanage.ZMAPND) {
+      if (local.crc !== undefined) {
+        this.resumeFile(local.size, local.crc)
+      } else {
+        this.acceptFile(local.size)
+      }
+      return FileAction.Resume
+    }
+
+    const remoteMtime = this.fileMtime
+    const localMtime = local.mtime ?? 0
+    const datesKnown = remoteMtime > 0 && localMtime > 0
+    let transfer: boolean
+    switch (management) {
+      case Zmanage.ZMNEWL:
+        transfer = !datesKnown || remoteMtime > localMtime || this.fileSize > local.size
+        break
+      case Zmanage.ZMCRC:
+        // Equal lengths are settled by the ZCRC check: a match resumes at the end.
+        // The sender's CRC covers the file, not the converted text.
+        if (this.fileSize === local.size && local.crc !== undefined && !this.isTextFile()) {
+          this.resumeFile(local.size, local.crc)
+          return FileAction.Resume
+        }
+        transfer = true
+        break
+      case Zmanage.ZMAPND:
+        this.acceptFile()
+        return FileAction.Append
+      case Zmanage.ZMNEW:
+        transfer = !datesKnown || remoteMtime > localMtime
+        break
+      case Zmanage.ZMDIFF:
+        transfer = !datesKnown || remoteMtime !== localMtime || this.fileSize !== local.size
+        break
+      case Zmanage.ZMPROT:
+        transfer = false
+        break
+      case Zmanage.ZMCHNG:
+        this.acceptFile()
+        return FileAction.Rename
+      default:
+        transfer = true
+    }
+
+    if (!transfer) {
+      this.skipFile()
+      return FileAction.Skip
+    }
+    this.acceptFile()
+    return FileAction.Write
+  }
+
+  /**
+   * Declines the file offered by the last `FileStart` event.
+   * The sender is told to skip it and move on to the next file.
+   */
+  skipFile (): void {
+    if (this.state !== RecvState.FileAwaitingDecision) {
+      throw new UnsupportedError()
+    }
+    this.queueZskip()
+    this.state = RecvState.FileBegin
+  }
+
   /**
    * Returns the current file name.
    */
@@ -784,6 +2132,136 @@ export class Receiver {
     return this.fileMtime
   }
 
+  /**
+   * Returns all metadata the sender gave for the current file.
+   */
+  getFileInfo (): FileInfo {
+    return {
+      name: this.fileName,
+      size: this.fileSize,
+      mtime: this.fileMtime,
+      mode: this.fileMode,
+      serial: this.fileSerial,
+      filesRemaining: this.filesRemaining,
+      bytesRemaining: this.bytesRemaining
+    }
+  }
+
+  /**
+   * Returns the ZF0 conversion option of the current file, or 0 if none was given.
+   * `Zconv.ZCRESUM` asks to resume a partial file with `acceptFile(existingLength)`.
+   */
+  getFileConversion (): number {
+    return this.fileConversion
+  }
+
+  /**
+   * Returns the ZF1 management option of the current file, or 0 if none was given.
+   * The value may include the `Zmanage.ZMSKNOLOC` bit.
+   */
+  getFileManagement (): number {
+    return this.fileManagement
+  }
+
+  /**
+   * Returns the ZF2 transport option of the current file, or 0 if none was given.
+   */
+  getFileTransport (): number {
+    return this.fileTransport
+  }
+
+  /**
+   * Returns the ZF3 extended options of the current file, or 0 if none were given.
+   */
+  getFileExtended (): number {
+    return this.fileExtended
+  }
+
+  /**
+   * Tells the sender that the current file could not be written, with ZFERR,
+   * and ends the session. Call it when storing `drainFile()` data fails.
+   */
+  reportFileError (): void {
+    if (this.state === RecvState.SessionEnd) {
+      throw new UnsupportedError()
+    }
+    this.endSubpacket()
+    this.state = RecvState.SessionEnd
+    const header = new Header(Encoding.ZHEX, Frame.ZFERR).encode()
+    this.outgoing.clear()
+    this.outgoing.extend(header)
+    this.outgoingOffset = 0
+  }
+
+  /**
+   * Returns true once the session has ended with ZFIN, a cancel or an error.
+   */
+  isDone (): boolean {
+    return this.state === RecvState.SessionEnd
+  }
+
+  /**
+   * Returns the text from the last ZSTDERR.
+   */
+  getMessage (): string {
+    return this.message
+  }
+
+  /**
+   * Returns the command from the last ZCOMMAND.
+   */
+  getCommand (): string {
+    return this.command
+  }
+
+  /**
+   * Answers the command reported by the last `Command` event with ZCOMPL.
+   *
+   * If the ZCOMPL is lost, the receiver times out with ZRINIT and the sender
+   * resends the command. ZCOMMAND carries no sequence number, so a ZCOMMAND
+   * equal to the last one that arrives after such a ZRINIT or a ZNAK, with no
+   * other frame in between, is taken as that resend: it is answered with the
+   * same status without another `Command` event. An identical command the
+   * sender sends right after the ZCOMPL runs again, but one whose first frame
+   * was lost on the line is taken as a resend too.
+   * @param status - The exit status of the command
+   */
+  completeCommand (status: number): void {
+    if (this.state !== RecvState.CommandAwaitingStatus) {
+      throw new UnsupportedError()
+    }
+    this.lastCommand = { command: this.command, status, resendable: false }
+    this.queueZcompl(status)
+    this.state = this.sessionReturnState
+  }
+
+  /**
+   * Returns the attention string from the sender's ZSINIT, empty if none was sent.
+   */
+  getAttention (): Uint8Array {
+    return this.attention
+  }
+
+  /**
+   * Returns the `Zsinit.TESCCTL` and `Zsinit.TESC8` flags from the sender's
+   * ZSINIT, 0 if none was sent. The receiver's own hex headers need no
+   * escaping, so these only matter for what the host sends otherwise.
+   */
+  getRemoteEscaping (): number {
+    return this.remoteEscaping
+  }
+
+  /**
+   * Returns the error counters of the session.
+   */
+  getStats (): ReceiverStats {
+    return {
+      dataErrors: this.dataErrors,
+      headerErrors: this.headerErrors,
+      consecutiveErrors: this.consecutiveErrors
+    }
+  }
+
   private hasOutgoing (): boolean {
     return this.outgoingOffset < this.outgoing.length
   }
@@ -816,17 +2294,55 @@ export class Receiver {
     return event
   }
 
+  private isTextFile (): boolean {
+    return this.fileConversion === Zconv.ZCNL
+  }
+
   private queueZrinit (): void {
-    // Include CANOVIO flag to enable overlapped I/O for better throughput
-    const header = createZrinit(SUBPACKET_MAX_SIZE, Zrinit.CANFDX | Zrinit.CANOVIO | Zrinit.CANFC32).encode()
+    const header = createZrinit(this.bufferSize, this.capabilities).encode()
     this.outgoing.clear()
     this.outgoing.extend(header)
     this.outgoingOffset = 0
   }
 
-  private queueZrpos (count: number): void {
+  /**
+   * Queues ZRPOS, preceded by the ZSINIT attention string when `interrupt`
+   * is set so that a streaming sender stops to read it.
+   */
+  private queueZrpos (count: number, interrupt: boolean = false): void {
     const header = ZRPOS_HEADER.withCount(count).encode()
     this.outgoing.clear()
+    if (interrupt) {
+      this.outgoing.extend(this.attention)
+    }
+    this.outgoing.extend(header)
+    this.outgoingOffset = 0
+  }
+
+  private queueAck (count: number): void {
+    const header = ZACK_HEADER.withCount(count).encode()
+    this.outgoing.clear()
+    this.outgoing.extend(header)
+    this.outgoingOffset = 0
+  }
+
+  private queueZcompl (status: number): void {
+    const header = new Header(Encoding.ZHEX, Frame.ZCOMPL).withCount(status).encode()
+    this.outgoing.clear()
+    this.outgoing.extend(header)
+    this.outgoingOffset = 0
+  }
+
+  private queueZskip (): void {
+    const header = ZSKIP_HEADER.encode()
+    this.outgoing.clear()
+    this.outgoing.extend(header)
+    this.outgoingOffset = 0
+  }
+
+  private queueZcrc (length: number): void {
+    const header = ZCRC_HEADER.withCount(length).encode()
+    this.outgoing.clear()
     this.outgoing.extend(header)
     this.outgoingOffset = 0
   }
@@ -853,15 +2369,46 @@ export class Receiver {
   }
 
   private handleHeader (header: Header): void {
+    if (header.frame !== Frame.ZCOMMAND) {
+      // The sender moved on, so its next command is a new one
+      this.lastCommand = null
+    }
     switch (header.frame) {
       case Frame.ZRQINIT:
         if (this.state === RecvState.SessionBegin) {
           this.queueZrinit()
         }
         break
+      case Frame.ZSINIT:
+        if (this.state === RecvState.SessionBegin || this.state === RecvState.FileBegin) {
+          this.zsinitFlags = header.flags[ZF0]
+          this.beginSessionSubpacket(header, RecvState.SessionReadingZsinit)
+        }
+        break
+      case Frame.ZFREECNT:
+        if (this.state === RecvState.SessionBegin || this.state === RecvState.FileBegin) {
+          const free = this.freeSpace?.() ?? UNKNOWN_FREE_SPACE
+          this.queueAck(Math.min(Math.max(0, Math.floor(free)), UNKNOWN_FREE_SPACE))
+        }
+        break
+      case Frame.ZCOMMAND:
+        if (this.state === RecvState.SessionBegin || this.state === RecvState.FileBegin) {
+          this.beginSessionSubpacket(header, RecvState.SessionReadingCommand)
+        }
+        break
+      case Frame.ZSTDERR:
+        if (this.state === RecvState.SessionBegin || this.state === RecvState.FileBegin ||
+            this.state === RecvState.FileWaitingSubpacket) {
+          this.beginSessionSubpacket(header, RecvState.SessionReadingMessage)
+        }
+        break
       case Frame.ZFILE:
         if (this.state === RecvState.SessionBegin || this.state === RecvState.FileBegin) {
           this.dataEncoding = header.encoding
+          this.fileConversion = header.flags[ZF0]
+          this.fileManagement = header.flags[ZF1]
+          this.fileTransport = header.flags[ZF2]
+          this.fileExtended = header.flags[ZF3]
           this.state = RecvState.FileReadingMetadata
           this.subpacketState = SubpacketState.Reading
           this.subpacketEscapePending = false
@@ -870,12 +2417,25 @@ export class Receiver {
           this.bufWriteOffset = 0
         }
         break
+      case Frame.ZCRC:
+        if (this.state === RecvState.FileVerifyingCrc && this.resumeCrc !== null) {
+          const matches = (this.resumeCrc(this.resumeLength) >>> 0) === header.count
+          const offset = matches ? this.resumeLength : 0
+          this.resumeCrc = null
+          this.count = offset
+          this.queueZrpos(offset)
+          this.state = RecvState.FileWaitingSubpacket
+          if (!matches) {
+            this.pushEvent(ReceiverEvent.ResumeRejected)
+          }
+        }
+        break
       case Frame.ZDATA:
         if (this.state === RecvState.SessionBegin) {
           this.queueZrinit()
         } else if (this.state === RecvState.FileBegin || this.state === RecvState.FileWaitingSubpacket) {
           if (header.count !== this.count) {
-            this.queueZrpos(this.count)
+            this.queueZrpos(this.count, true)
             return
           }
           this.dataEncoding = header.encoding
@@ -894,16 +2454,151 @@ export class Receiver {
           this.pushEvent(ReceiverEvent.FileComplete)
         }
         break
+      case Frame.ZABORT:
+        this.onRemoteError(new RemoteAbortError())
+        break
+      case Frame.ZFERR:
+        this.onRemoteError(new RemoteFileError())
+        break
       case Frame.ZFIN:
-        if (this.state === RecvState.FileWaitingSubpacket || this.state === RecvState.FileBegin) {
+        if (this.state === RecvState.FileWaitingSubpacket || this.state === RecvState.FileBegin ||
+            this.state === RecvState.SessionBegin) {
           this.queueZfin()
           this.state = RecvState.SessionEnd
           this.pushEvent(ReceiverEvent.SessionComplete)
+        } else if (this.state === RecvState.SessionEnd) {
+          // Our ZFIN was lost and the sender timed out
+          this.queueZfin()
         }
         break
     }
   }
 
+  /**
+   * Starts reading the subpacket of ZSINIT, ZCOMMAND or ZSTDERR, returning to the
+   * current state once it has been answered.
+   */
+  private beginSessionSubpacket (header: Header, state: RecvState): void {
+    this.dataEncoding = header.encoding
+    this.sessionReturnState = this.state
+    this.state = state
+    this.subpacketState = SubpacketState.Reading
+    this.subpacketEscapePending = false
+    this.resetCrc()
+    this.buf.clear()
+    this.bufWriteOffset = 0
+    this.subpacketOverflow = false
+  }
+
+  /**
+   * Stores a subpacket byte. ZSINIT, ZCOMMAND and ZSTDERR subpackets that do
+   * not fit are read on for their CRC without storing the rest.
+   */
+  private pushSubpacketByte (byte: number): void {
+    if (this.buf.length >= SUBPACKET_MAX_SIZE && (this.state === RecvState.SessionReadingZsinit ||
+        this.state === RecvState.SessionReadingCommand || this.state === RecvState.SessionReadingMessage)) {
+      this.subpacketOverflow = true
+      return
+    }
+    this.buf.push(byte)
+  }
+
+  private onCommand (): void {
+    const payload = this.buf.slice()
+    const end = payload.indexOf(0)
+    const command = new TextDecoder('utf-8').decode(payload.slice(0, end >= 0 ? end : payload.length))
+    const overflow = this.subpacketOverflow
+    this.endSubpacket()
+    if (this.lastCommand?.resendable === true && this.lastCommand.command === command) {
+      // Our ZCOMPL was lost: answer again instead of running the command twice
+      this.lastCommand.resendable = false
+      this.state = this.sessionReturnState
+      this.queueZcompl(this.lastCommand.status)
+      return
+    }
+    this.command = command
+    // A truncated command must not run
+    if (!overflow && this.commandPolicy?.(this.command) === true) {
+      this.state = RecvState.CommandAwaitingStatus
+      this.pushEvent(ReceiverEvent.Command)
+    } else {
+      this.lastCommand = { command, status: 1, resendable: false }
+      this.state = this.sessionReturnState
+      this.queueZcompl(1)
+      this.pushEvent(ReceiverEvent.CommandRejected)
+    }
+  }
+
+  private onRemoteError (error: ZmodemError): void {
+    if (this.state === RecvState.SessionEnd) {
+      return
+    }
+    this.endSubpacket()
+    this.state = RecvState.SessionEnd
+    throw error
+  }
+
+  private onCancelled (): void {
+    this.endSubpacket()
+    this.state = RecvState.SessionEnd
+    this.pushEvent(ReceiverEvent.SessionCancelled)
+  }
+
+  private onHeaderError (error: ZmodemError): void {
+    if (this.state === RecvState.SessionEnd) {
+      return
+    }
+    this.headerErrors++
+    this.countError(error)
+    this.queueNak()
+    this.markCommandResendable()
+  }
+
+  private markCommandResendable (): void {
+    if (this.lastCommand !== null) {
+      this.lastCommand.resendable = true
+    }
+  }
+
+  private onSubpacketError (error: ZmodemError): void {
+    this.dataErrors++
+    this.countError(error)
+    this.endSubpacket()
+    if (this.state === RecvState.SessionReadingZsinit || this.state === RecvState.SessionReadingCommand) {
+      // Ask the sender to resend ZSINIT or ZCOMMAND
+      this.queueNak()
+      this.state = this.sessionReturnState
+    } else if (this.state === RecvState.SessionReadingMessage) {
+      // Messages are not resent, so a damaged one is dropped
+      this.state = this.sessionReturnState
+    } else if (this.state === RecvState.FileReadingMetadata) {
+      // Ask the sender to resend ZFILE
+      this.queueNak()
+      this.state = RecvState.FileBegin
+    } else {
+      // Discard the subpacket and ask the sender to resend from the last good offset
+      this.queueZrpos(this.count, true)
+      this.state = RecvState.FileWaitingSubpacket
+    }
+  }
+
+  private countError (error: ZmodemError): void {
+    this.consecutiveErrors++
+    if (this.consecutiveErrors > this.maxErrors) {
+      throw error
+    }
+  }
+
+  private endSubpacket (): void {
+    this.buf.clear()
+    this.bufWriteOffset = 0
+    this.subpacketOverflow = false
+    this.resetCrc()
+    this.subpacketState = SubpacketState.Idle
+    this.subpacketEscapePending = false
+    this.cancelDetector.reset()
+  }
+
   private resetCrc (): void {
     this.crc16 = new Crc16()
     this.crc32 = new Crc32()
@@ -926,6 +2621,11 @@ export class Receiver {
     while (consumed < input.length) {
       const byte = input[consumed]
 
+      if (this.subpacketState !== SubpacketState.Writing && this.cancelDetector.feed(byte)) {
+        this.onCancelled()
+        return { consumed: consumed + 1, done: true }
+      }
+
       switch (this.subpacketState) {
         case SubpacketState.Reading:
           if (this.subpacketEscapePending) {
@@ -937,7 +2637,7 @@ export class Receiver {
               this.subpacketState = SubpacketState.Crc
             } catch {
               const unescaped = UNZDLE_TABLE[byte]
-              this.buf.push(unescaped)
+              this.pushSubpacketByte(unescaped)
               this.updateCrc(unescaped)
             }
             consumed++
@@ -945,7 +2645,7 @@ export class Receiver {
             this.subpacketEscapePending = true
             consumed++
           } else {
-            this.buf.push(byte)
+            this.pushSubpacketByte(byte)
             this.updateCrc(byte)
             consumed++
           }
@@ -954,55 +2654,66 @@ export class Receiver {
         case SubpacketState.Crc: {
           const crcLen = this.dataEncoding === Encoding.ZBIN32 ? 4 : 2
 
-          while (consumed < input.length && this.crcBytesRead < crcLen) {
-            const currentByte = input[consumed]
-            if (this.crcEscapePending) {
-              this.crcEscapePending = false
-              const unescaped = UNZDLE_TABLE[currentByte]
-              this.crcBuf.push(unescaped)
-              this.crcBytesRead++
-              consumed++
-            } else if (currentByte === ZDLE) {
-              this.crcEscapePending = true
-              consumed++
-            } else {
-              this.crcBuf.push(currentByte)
-              this.crcBytesRead++
-              consumed++
-            }
+          if (this.crcEscapePending) {
+            this.crcEscapePending = false
+            this.crcBuf.push(UNZDLE_TABLE[byte])
+            this.crcBytesRead++
+          } else if (byte === ZDLE) {
+            this.crcEscapePending = true
+          } else {
+            this.crcBuf.push(byte)
+            this.crcBytesRead++
           }
+          consumed++
 
           if (this.crcBytesRead < crcLen) {
-            return { consumed, done: false }
+            break
           }
 
           // Verify CRC - use the accumulated crcBuf
-          if (this.dataEncoding === Encoding.ZBIN32) {
-            const expected = this.crc32.finalize() >>> 0 // Ensure unsigned
-            // Little-endian interpretation (as per ZMODEM spec)
-            const received = (this.crcBuf[0] | (this.crcBuf[1] << 8) | (this.crcBuf[2] << 16) | (this.crcBuf[3] << 24)) >>> 0
-
-            if (expected !== received) {
-              throw new UnexpectedCrc32Error()
-            }
-          } else {
-            const expected = this.crc16.finalize()
-            const received = (this.crcBuf[0] << 8) | this.crcBuf[1]
-            if (expected !== received) {
-              throw new UnexpectedCrc16Error()
-            }
+          const crcError = this.checkSubpacketCrc()
+          if (crcError !== null) {
+            this.onSubpacketError(crcError)
+            return { consumed, done: true }
           }
-
-          if (this.state === RecvState.FileReadingMetadata) {
+          this.consecutiveErrors = 0
+
+          if (this.state === RecvState.SessionReadingZsinit) {
+            const payload = this.buf.slice()
+            const end = payload.indexOf(0)
+            this.attention = payload.slice(0, Math.min(end >= 0 ? end : payload.length, ZATTNLEN))
+            this.remoteEscaping = this.zsinitFlags & (Zsinit.TESCCTL | Zsinit.TESC8)
+            this.endSubpacket()
+            this.state = this.sessionReturnState
+            this.queueAck(1)
+          } else if (this.state === RecvState.SessionReadingCommand) {
+            this.onCommand()
+          } else if (this.state === RecvState.SessionReadingMessage) {
+            const payload = this.buf.slice()
+            const end = payload.indexOf(0)
+            const overflow = this.subpacketOverflow
+            this.endSubpacket()
+            this.state = this.sessionReturnState
+            // A message too long to read is dropped like a damaged one
+            if (!overflow) {
+              this.message = new TextDecoder('utf-8').decode(payload.slice(0, end >= 0 ? end : payload.length))
+              this.pushEvent(ReceiverEvent.Message)
+            }
+          } else if (this.state === RecvState.FileReadingMetadata) {
             this.parseZfileBuf()
             this.buf.clear()
             this.bufWriteOffset = 0
             this.resetCrc()
             this.subpacketEscapePending = false
-            this.queueZrpos(0)
-            this.state = RecvState.FileBegin
             this.subpacketState = SubpacketState.Idle
-            this.pushEvent(ReceiverEvent.FileStart)
+            if (this.fileSize > this.maxFileSize) {
+              this.queueZskip()
+              this.state = RecvState.FileBegin
+              this.pushEvent(ReceiverEvent.FileSkipped)
+            } else {
+              this.state = RecvState.FileAwaitingDecision
+              this.pushEvent(ReceiverEvent.FileStart)
+            }
           } else {
             this.subpacketState = SubpacketState.Writing
             this.bufWriteOffset = 0
@@ -1024,6 +2735,18 @@ export class Receiver {
     return { consumed, done: false }
   }
 
+  private checkSubpacketCrc (): ZmodemError | null {
+    if (this.dataEncoding === Encoding.ZBIN32) {
+      const expected = this.crc32.finalize() >>> 0 // Ensure unsigned
+      // Little-endian interpretation (as per ZMODEM spec)
+      const received = (this.crcBuf[0] | (this.crcBuf[1] << 8) | (this.crcBuf[2] << 16) | (this.crcBuf[3] << 24)) >>> 0
+      return expected === received ? null : new UnexpectedCrc32Error()
+    }
+    const expected = this.crc16.finalize()
+    const received = (this.crcBuf[0] << 8) | this.crcBuf[1]
+    return expected === received ? null : new UnexpectedCrc16Error()
+  }
+
   private parseZfileBuf (): void {
     const payload = this.buf.slice()
     const fields: number[][] = []
@@ -1047,34 +2770,26 @@ export class Receiver {
 
     this.fileName = new TextDecoder('utf-8').decode(new Uint8Array(fields[0]))
 
-    if (fields.length > 1) {
-      const sizeField = fields[1]
-      const spaceIndex = sizeField.findIndex(b => b === 0x20)
-      const sizeBytes = spaceIndex >= 0 ? sizeField.slice(0, spaceIndex) : sizeField
-      const sizeStr = String.fromCharCode(...sizeBytes)
-      this.fileSize = parseInt(sizeStr, 10)
+    // Size, octal mtime, octal mode, octal serial, files remaining and bytes remaining
+    const info = fields.length > 1 ? String.fromCharCode(...fields[1]).split(' ') : []
+    const parseField = (index: number, radix: number): number => {
+      const value = parseInt(info[index] ?? '', radix)
+      return isNaN(value) ? 0 : value
+    }
+
+    if (info.length > 0) {
+      this.fileSize = parseInt(info[0], 10)
       if (isNaN(this.fileSize)) {
         throw new MalformedFileSizeError()
       }
-      // Parse modification time (octal Unix timestamp) if present
-      if (spaceIndex >= 0) {
-        const restBytes = sizeField.slice(spaceIndex + 1)
-        const nextSpaceIndex = restBytes.findIndex(b => b === 0x20)
-        const mtimeBytes = nextSpaceIndex >= 0 ? restBytes.slice(0, nextSpaceIndex) : restBytes
-        if (mtimeBytes.length > 0) {
-          const mtimeStr = String.fromCharCode(...mtimeBytes)
-          const mtimeSec = parseInt(mtimeStr, 8)
-          this.fileMtime = isNaN(mtimeSec) ? 0 : mtimeSec * 1000
-        } else {
-          this.fileMtime = 0
-        }
-      } else {
-        this.fileMtime = 0
-      }
     } else {
       this.fileSize = 0
-      this.fileMtime = 0
     }
+    this.fileMtime = parseField(1, 8) * 1000
+    this.fileMode = parseField(2, 8)
+    this.fileSerial = parseField(3, 8)
+    this.filesRemaining = parseField(4, 10)
+    this.bytesRemaining = parseField(5, 10)
 
     this.count = 0
   }
@@ -1111,60 +2826,63 @@ export class Receiver {
 }
 
 /**
- * Header reader state machine.
+ * Header reader state machine, shared with `Session` for role detection.
  */
-class HeaderReader {
+export class HeaderReader {
   private state: HeaderReadState = HeaderReadState.SeekingZpad
   private zpadState: ZpadState = ZpadState.Idle
   private buf: number[] = []
   private encoding: Encoding | null = null
   private expectedLen: number = 0
   private escapePending: boolean = false
+  private readonly cancelDetector: CancelDetector = new CancelDetector()
 
   /**
    * Reads a header from the input data.
    * @param input - The input data
    * @param startOffset - The starting offset in the input
-   * @returns The header and consumed bytes, or null if not enough data
+   * @returns The header, a remote cancel or a decode error with the consumed bytes, or null if not enough data
    */
-  read (input: Uint8Array, startOffset: number): { header: Header, consumed: number } | null {
+  read (input: Uint8Array, startOffset: number): HeaderReadResult | null {
     let consumed = startOffset
 
     while (consumed < input.length) {
-      switch (this.state) {
-        case HeaderReadState.SeekingZpad: {
-          const byte = input[consumed]
-          consumed++
+      const byte = input[consumed]
+      consumed++
 
+      if (this.cancelDetector.feed(byte)) {
+        this.reset()
+        return { cancelled: true, consumed }
+      }
+
+      switch (this.state) {
+        case HeaderReadState.SeekingZpad:
           if (this.advanceZpadState(byte)) {
             this.state = HeaderReadState.ReadingEncoding
           }
           break
-        }
 
-        case HeaderReadState.ReadingEncoding: {
-          const byte = input[consumed]
-          consumed++
-
-          try {
-            this.encoding = Encoding.ZBIN
-            switch (byte) {
-              case 0x41:
-                this.encoding = Encoding.ZBIN
-                break
-              case 0x42:
-                this.encoding = Encoding.ZHEX
-                break
-              case 0x43:
-                this.encoding = Encoding.ZBIN32
-                break
-              default:
-                this.reset()
-                throw new MalformedPacketError(byte)
-            }
-          } catch {
-            this.reset()
-            throw new MalformedPacketError(byte)
+        case HeaderReadState.ReadingEncoding:
+          switch (byte) {
+            case 0x41:
+              this.encoding = Encoding.ZBIN
+              break
+            case 0x42:
+              this.encoding = Encoding.ZHEX
+              break
+            case 0x43:
+              this.encoding = Encoding.ZBIN32
+              break
+            case CAN:
+              // Start of an abort sequence rather than a header
+              this.reset()
+              continue
+            default:
+              // Line noise or data that looks like ZPAD ZDLE, such as the rest of
+              // a window after a CRC error: keep seeking instead of counting an error
+              this.reset()
+              this.advanceZpadState(byte)
+              continue
           }
 
           this.expectedLen = Header.readSize(this.encoding)
@@ -1172,21 +2890,15 @@ class HeaderReader {
           this.buf = []
           this.state = HeaderReadState.ReadingData
           break
-        }
 
         case HeaderReadState.ReadingData:
-          while (this.buf.length < this.expectedLen && consumed < input.length) {
-            const byte = input[consumed]
-            consumed++
-
-            if (this.escapePending) {
-              this.escapePending = false
-              this.buf.push(UNZDLE_TABLE[byte])
-            } else if (byte === ZDLE) {
-              this.escapePending = true
-            } else {
-              this.buf.push(byte)
-            }
+          if (this.escapePending) {
+            this.escapePending = false
+            this.buf.push(UNZDLE_TABLE[byte])
+          } else if (byte === ZDLE) {
+            this.escapePending = true
+          } else {
+            this.buf.push(byte)
           }
 
           if (this.buf.length >= this.expectedLen) {
@@ -1195,9 +2907,17 @@ class HeaderReader {
               throw new MalformedHeaderError()
             }
 
-            const header = decodeHeader(this.encoding, new Uint8Array(this.buf))
+            const encoding = this.encoding
+            const data = new Uint8Array(this.buf)
             this.reset()
-            return { header, consumed }
+            try {
+              return { header: decodeHeader(encoding, data), consumed }
+            } catch (error) {
+              if (error instanceof ZmodemError) {
+                return { error, consumed }
+              }
+              throw error
+            }
           }
           break
       }
@@ -50,13 +50,39 @@ export const UNZDLE_TABLE: Uint8Array = new Uint8Array([
   0xf0, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa, 0xfb, 0xfc, 0xfd, 0xfe, 0xff
 ])
 
+/**
+ * Builds a per-session escape table on top of `ZDLE_TABLE`.
+ *
+ * ZDLE escaping can only represent the bytes that `UNZDLE_TABLE` maps back,
+ * so `esc8` covers 0x80-0x9f and 0xff. Bytes 0xa0-0xfe still pass unescaped.
+ * @param escapeCtl - Escape all 7-bit control characters and DEL (ESCCTL)
+ * @param esc8 - Escape the high-bit control characters and 0xff (ESC8)
+ * @returns The escape table
+ */
+export function createEscapeTable (escapeCtl: boolean, esc8: boolean): Uint8Array {
+  const table = ZDLE_TABLE.slice()
+  for (let byte = 0; byte < 0x100; byte++) {
+    const high = (byte & 0x80) !== 0
+    if (high ? !esc8 : !escapeCtl) {
+      continue
+    }
+    if ((byte & 0x7f) === 0x7f) {
+      table[byte] = high ? 0x6d : 0x6c // ZRUB1 / ZRUB0
+    } else if ((byte & 0x60) === 0) {
+      table[byte] = byte ^ 0x40
+    }
+  }
+  return table
+}
+
 /**
  * Escapes a single byte using ZDLE encoding.
  * @param value - The byte to escape
+ * @param table - The escape table (defaults to ZDLE_TABLE)
  * @returns An object containing the escaped byte and whether ZDLE prefix is needed
  */
-export function escapeByte (value: number): { escaped: number, needsPrefix: boolean } {
-  const escaped = ZDLE_TABLE[value & 0xFF]
+export function escapeByte (value: number, table: Uint8Array = ZDLE_TABLE): { escaped: number, needsPrefix: boolean } {
+  const escaped = table[value & 0xFF]
   return {
     escaped,
     needsPrefix: escaped !== value
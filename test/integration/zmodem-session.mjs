@@ -280,6 +280,8 @@ export class ZmodemSession {
           if (this.options.onFileStart !== null) {
             this.options.onFileStart(this.currentFileName, this.currentFileSize, this.currentMtime)
           }
+          this.receiver.acceptFile()
+          this.stream.write(Buffer.from(this.receiver.drainOutgoing()))
           break
 
         case ReceiverEvent.FileComplete:
@@ -290,6 +292,15 @@ export class ZmodemSession {
           }
           break
 
+        case ReceiverEvent.SessionCancelled:
+          console.log('[ZMODEM] Session cancelled by remote')
+          this.state = 'error'
+          if (this.rejectSession !== null) {
+            this.rejectSession(new Error('Session cancelled by remote'))
+          }
+          this.cleanup()
+          return true
+
         case ReceiverEvent.SessionComplete:
           console.log('[ZMODEM] Receive session complete')
           this.state = 'complete'
@@ -367,6 +378,26 @@ export class ZmodemSession {
           break
         }
 
+        case SenderEvent.FileSkipped: {
+          console.log('[ZMODEM] Sender file skipped by receiver:', this.currentFileName)
+          this.sender.finishSession()
+          const skipOutgoing = this.sender.drainOutgoing()
+          if (skipOutgoing.length > 0) {
+            this.stream.write(Buffer.from(skipOutgoing))
+            this.sender.advanceOutgoing(skipOutgoing.length)
+          }
+          break
+        }
+
+        case SenderEvent.SessionCancelled:
+          console.log('[ZMODEM] Session cancelled by remote')
+          this.state = 'error'
+          if (this.rejectSession !== null) {
+            this.rejectSession(new Error('Session cancelled by remote'))
+          }
+          this.cleanup()
+          return true
+
         case SenderEvent.SessionComplete:
           console.log('[ZMODEM] Send session complete')
           this.state = 'complete'
@@ -0,0 +1,14 @@
+/**
+ * Fixtures shared by the unit tests.
+ */
+
+/**
+ * Creates deterministic test file contents.
+ */
+export function makeData (size: number): Uint8Array {
+  const data = new Uint8Array(size)
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + 7) & 0xFF
+  }
+  return data
+}
@@ -0,0 +1,29 @@
+/**
+ * Tests for ZCNL line ending conversion.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { LineEnding, fromWireText, toWireText } from '../../src/lib/newline.js'
+
+const bytes = (text: string): Uint8Array => new TextEncoder().encode(text)
+
+describe('toWireText', () => {
+  it('should turn bare LF into CR LF', () => {
+    expect(toWireText(bytes('a\nb\r\nc'), false)).toEqual(bytes('a\r\nb\r\nc'))
+  })
+
+  it('should not add a CR after a CR at the end of the previous chunk', () => {
+    expect(toWireText(bytes('\nx'), true)).toEqual(bytes('\nx'))
+    expect(toWireText(bytes('\nx'), false)).toEqual(bytes('\r\nx'))
+  })
+})
+
+describe('fromWireText', () => {
+  it('should drop CR for LF line endings', () => {
+    expect(fromWireText(bytes('a\r\nb\rc\n'), LineEnding.Lf)).toEqual(bytes('a\nbc\n'))
+  })
+
+  it('should write CR LF for CRLF line endings', () => {
+    expect(fromWireText(bytes('a\r\nb\n'), LineEnding.Crlf)).toEqual(bytes('a\r\nb\r\n'))
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * Tests for Session role detection and switching.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { Session, SessionEvent, SessionRole } from '../../src/lib/session.js'
+import { Receiver, ReceiverEvent, Sender, SenderEvent } from '../../src/lib/transmission.js'
+import { makeData } from './helpers.js'
+
+/**
+ * Shuttles bytes between a session and a remote state machine until neither
+ * makes progress. Both sides serve files from `source` and accept every file.
+ * `remotes` returns the remote machine in use, and `remoteWire` may replace
+ * what it sends, so that a test can swap in another machine.
+ */
+function exchange (
+  session: Session,
+  remotes: Sender | Receiver | (() => Sender | Receiver),
+  source: Uint8Array,
+  remoteWire: (wire: Uint8Array) => Uint8Array = (wire) => wire
+): { local: Uint8Array, remote: Uint8Array, events: string[] } {
+  const local: number[] = []
+  const remoteData: number[] = []
+  const events: string[] = []
+  let toSession = new Uint8Array(0)
+  let toRemote = new Uint8Array(0)
+
+  for (let round = 0; round < 10000; round++) {
+    let progressed = false
+    const remote = typeof remotes === 'function' ? remotes() : remotes
+
+    const sender = session.getSender()
+    const request = sender?.pollFile() ?? null
+    if (sender !== null && request !== null) {
+      sender.feedFile(source.subarray(request.offset, request.offset + request.len))
+      progressed = true
+    }
+    if (remote instanceof Sender) {
+      const remoteRequest = remote.pollFile()
+      if (remoteRequest !== null) {
+        remote.feedFile(source.subarray(remoteRequest.offset, remoteRequest.offset + remoteRequest.len))
+        progressed = true
+      }
+    }
+
+    toRemote = new Uint8Array([...toRemote, ...session.drainOutgoing()])
+    if (toRemote.length > 0) {
+      const consumed = remote.feedIncoming(toRemote)
+      toRemote = toRemote.subarray(consumed)
+      progressed ||= consumed > 0
+    }
+    if (remote instanceof Receiver) {
+      remoteData.push(...remote.drainFile())
+      let event: ReceiverEvent | null
+      while ((event = remote.pollEvent()) !== null) {
+        if (event === ReceiverEvent.FileStart) {
+          remote.acceptFile()
+        }
+      }
+    } else {
+      while (remote.pollEvent() !== null) {
+        progressed = true
+      }
+    }
+
+    toSession = new Uint8Array([...toSession, ...remoteWire(remote.drainOutgoing())])
+    if (toSession.length > 0) {
+      const consumed = session.feedIncoming(toSession)
+      toSession = toSession.subarray(consumed)
+      progressed ||= consumed > 0
+    }
+    const receiver = session.getReceiver()
+    if (receiver !== null) {
+      const data = receiver.drainFile()
+      local.push(...data)
+      progressed ||= data.length > 0
+    }
+    let event: SenderEvent | ReceiverEvent | SessionEvent | null
+    while ((event = session.pollEvent()) !== null) {
+      events.push(event)
+      progressed = true
+      if (event === ReceiverEvent.FileStart) {
+        session.getReceiver()?.acceptFile()
+      }
+    }
+
+    if (!progressed) {
+      break
+    }
+  }
+
+  return { local: new Uint8Array(local), remote: new Uint8Array(remoteData), events }
+}
+
+describe('Session', () => {
+  it('should wait for the remote before picking a role', () => {
+    const session = new Session()
+    expect(session.getRole()).toBeNull()
+    expect(session.drainOutgoing().length).toBe(0)
+    expect(session.pollEvent()).toBeNull()
+  })
+
+  it('should receive when the remote starts with ZRQINIT', () => {
+    const session = new Session()
+    const remote = new Sender()
+    const data = makeData(5000)
+    remote.startFile('data.bin', data.length)
+    remote.finishSession()
+
+    const result = exchange(session, remote, data)
+    expect(result.local).toEqual(data)
+    expect(result.events).toEqual([
+      SessionEvent.RoleChanged,
+      ReceiverEvent.FileStart,
+      ReceiverEvent.FileComplete,
+      ReceiverEvent.SessionComplete
+    ])
+    expect(session.getRole()).toBeNull()
+  })
+
+  it('should send when the remote starts with ZRINIT', () => {
+    const session = new Session()
+    const remote = new Receiver()
+    const data = makeData(5000)
+
+    session.feedIncoming(remote.drainOutgoing())
+    expect(session.getRole()).toBe(SessionRole.Sender)
+    session.getSender()?.startFile('data.bin', data.length)
+    session.getSender()?.finishSession()
+
+    const result = exchange(session, remote, data)
+    expect(result.remote).toEqual(data)
+    expect(result.events).toEqual([
+      SessionEvent.RoleChanged,
+      SenderEvent.FileComplete,
+      SenderEvent.SessionComplete
+    ])
+  })
+
+  it('should switch to receiving when the remote answers ZFIN with ZRQINIT', () => {
+    const session = new Session()
+    const remoteReceiver = new Receiver()
+    const remoteSender = new Sender()
+    const data = makeData(3000)
+    remoteSender.startFile('back.bin', 1000)
+    remoteSender.finishSession()
+
+    session.sendFiles([{ name: 'data.bin', size: data.length }])
+    session.getSender()?.finishSession()
+
+    // Like `sz` followed by `rz`: the remote starts sending instead of answering our ZFIN
+    let switched = false
+    const result = exchange(session, () => switched ? remoteSender : remoteReceiver, data, (wire) => {
+      if (!switched && remoteReceiver.isDone()) {
+        switched = true
+        return remoteSender.drainOutgoing()
+      }
+      return wire
+    })
+    expect(result.remote).toEqual(data)
+    expect(result.local).toEqual(data.subarray(0, 1000))
+    expect(result.events).toEqual([
+      SessionEvent.RoleChanged,
+      SenderEvent.FileComplete,
+      SenderEvent.SessionComplete,
+      SessionEvent.RoleChanged,
+      ReceiverEvent.FileStart,
+      ReceiverEvent.FileComplete,
+      ReceiverEvent.SessionComplete
+    ])
+  })
+
+  it('should honour ZSINIT escaping when sending to the same remote later', () => {
+    const session = new Session()
+    const data = makeData(2000)
+
+    const remoteSender = new Sender({ remoteEscapeControl: true })
+    remoteSender.startFile('a.bin', data.length)
+    remoteSender.finishSession()
+    expect(exchange(session, remoteSender, data).local).toEqual(data)
+
+    const remoteReceiver = new Receiver()
+    session.feedIncoming(remoteReceiver.drainOutgoing())
+    session.getSender()?.startFile('b.bin', data.length)
+    remoteReceiver.feedIncoming(session.drainOutgoing())
+    remoteReceiver.pollEvent()
+    remoteReceiver.acceptFile()
+    session.feedIncoming(remoteReceiver.drainOutgoing())
+    const request = session.getSender()?.pollFile() ?? null
+    expect(request).not.toBeNull()
+    session.getSender()?.feedFile(data.subarray(0, request?.len ?? 0))
+
+    // No raw 7-bit control characters other than ZDLE
+    expect(session.drainOutgoing().some((byte) => byte < 0x20 && byte !== 0x18)).toBe(false)
+  })
+
+  it('should pick a new role after a session ends', () => {
+    const session = new Session()
+    const data = makeData(2000)
+
+    const remoteSender = new Sender()
+    remoteSender.startFile('a.bin', data.length)
+    remoteSender.finishSession()
+    expect(exchange(session, remoteSender, data).local).toEqual(data)
+    expect(session.getRole()).toBeNull()
+
+    const remoteReceiver = new Receiver()
+    session.feedIncoming(remoteReceiver.drainOutgoing())
+    expect(session.getRole()).toBe(SessionRole.Sender)
+    session.getSender()?.startFile('b.bin', data.length)
+    session.getSender()?.finishSession()
+    expect(exchange(session, remoteReceiver, data).remote).toEqual(data)
+  })
+})
@@ -3,8 +3,117 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { Sender, Receiver } from '../../src/lib/transmission.js'
-import { Frame, Encoding, Header, createZrinit } from '../../src/lib/header.js'
+import { Sender, Receiver, SenderEvent, ReceiverEvent, FlowControl, FileAction, SubpacketType, type SendFileOptions } from '../../src/lib/transmission.js'
+import { Frame, Encoding, Header, Zconv, Zext, Zmanage, Zrinit, Zsinit, Ztrans, ZACK_HEADER, ZEOF_HEADER, ZNAK_HEADER, ZRPOS_HEADER, ZRQINIT_HEADER, createZrinit, decodeHeader, writeSliceEscaped } from '../../src/lib/header.js'
+import { InsufficientSpaceError, RemoteAbortError, RemoteFileError, TimeoutError, TooManyRetriesError, UnexpectedCrc32Error, UnsupportedError } from '../../src/lib/error.js'
+import { crc32IsoHdlc } from '../../src/lib/crc.js'
+import { LineEnding } from '../../src/lib/newline.js'
+import { CANCEL_SEQUENCE, MAX_RETRIES, SUBPACKET_MAX_SIZE, ZDLE, ZF0 } from '../../src/lib/constants.js'
+import { makeData } from './helpers.js'
+
+/**
+ * Decodes a ZHEX header from the start of an outgoing buffer.
+ */
+function readHexHeader (bytes: Uint8Array): Header {
+  return decodeHeader(Encoding.ZHEX, bytes.subarray(4, 4 + Header.readSize(Encoding.ZHEX)))
+}
+
+/**
+ * Runs the ZRQINIT / ZRINIT handshake between a sender and a receiver.
+ */
+function handshake (sender: Sender, receiver: Receiver): void {
+  receiver.feedIncoming(sender.drainOutgoing())
+  sender.feedIncoming(receiver.drainOutgoing())
+}
+
+/**
+ * Shuttles bytes between a sender and a receiver until neither makes progress,
+ * serving file requests from `source` and answering `FileStart` with `decide`.
+ * Sender output passes through `line` on its way to the receiver.
+ */
+function pump (
+  sender: Sender,
+  receiver: Receiver,
+  source: Uint8Array,
+  decide: (receiver: Receiver) => void = (r) => r.acceptFile(),
+  line: (wire: Uint8Array) => Uint8Array = (wire) => wire
+): { received: Uint8Array, senderEvents: SenderEvent[], receiverEvents: ReceiverEvent[] } {
+  const received: number[] = []
+  const senderEvents: SenderEvent[] = []
+  const receiverEvents: ReceiverEvent[] = []
+
+  // Replies the sender could not take yet, as a host would keep them
+  let backlog = new Uint8Array(0)
+  const feedSender = (): boolean => {
+    const consumed = sender.feedIncoming(backlog)
+    backlog = backlog.subarray(consumed)
+    return consumed > 0
+  }
+
+  for (let round = 0; round < 10000; round++) {
+    let progressed = backlog.length > 0 && feedSender()
+
+    const request = sender.pollFile()
+    if (request !== null) {
+      sender.feedFile(source.subarray(request.offset, request.offset + request.len))
+      progressed = true
+    }
+
+    let wire = line(sender.drainOutgoing())
+    while (wire.length > 0) {
+      progressed = true
+      const consumed = receiver.feedIncoming(wire)
+      wire = wire.subarray(consumed)
+
+      const data = receiver.drainFile()
+      received.push(...data)
+
+      let event: ReceiverEvent | null
+      while ((event = receiver.pollEvent()) !== null) {
+        receiverEvents.push(event)
+        if (event === ReceiverEvent.FileStart) {
+          decide(receiver)
+        }
+      }
+
+      const reply = receiver.drainOutgoing()
+      if (reply.length > 0) {
+        backlog = new Uint8Array([...backlog, ...reply])
+        feedSender()
+      }
+      if (consumed === 0 && data.length === 0 && reply.length === 0) {
+        break
+      }
+    }
+
+    let event: SenderEvent | null
+    while ((event = sender.pollEvent()) !== null) {
+      senderEvents.push(event)
+      progressed = true
+    }
+
+    if (!progressed) {
+      break
+    }
+  }
+
+  return { received: new Uint8Array(received), senderEvents, receiverEvents }
+}
+
+/**
+ * Encodes a ZBIN32 frame with one ZCRCW subpacket, bypassing the checks of `Sender`.
+ */
+function binaryFrame (frame: Frame, payload: Uint8Array): Uint8Array {
+  const crc = crc32IsoHdlc(new Uint8Array([...payload, SubpacketType.ZCRCW]))
+  const crcBytes = new Uint8Array([crc & 0xFF, (crc >> 8) & 0xFF, (crc >> 16) & 0xFF, (crc >>> 24) & 0xFF])
+  return new Uint8Array([
+    ...new Header(Encoding.ZBIN32, frame).encode(),
+    ...writeSliceEscaped(payload),
+    ZDLE,
+    SubpacketType.ZCRCW,
+    ...writeSliceEscaped(crcBytes)
+  ])
+}
 
 describe('Sender', () => {
   it('should create sender with ZRQINIT queued', () => {
@@ -313,3 +422,1594 @@ describe('Sender-Receiver Integration', () => {
     expect(receiver.pollEvent()).toBe('FileStart')
   })
 })
+
+describe('Receiver file decision', () => {
+  it('should wait for a decision before answering ZFILE', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+
+    expect(receiver.pollEvent()).toBe('FileStart')
+    expect(receiver.drainOutgoing().length).toBe(0)
+  })
+
+  it('should answer acceptFile with ZRPOS at the given offset', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.acceptFile(40)
+
+    const zrpos = readHexHeader(receiver.drainOutgoing())
+    expect(zrpos.frame).toBe(Frame.ZRPOS)
+    expect(zrpos.count).toBe(40)
+
+    sender.feedIncoming(zrpos.encode())
+    expect(sender.pollFile()?.offset).toBe(40)
+  })
+
+  it('should answer skipFile with ZSKIP and accept the next file', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('first.txt', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe('FileStart')
+    receiver.skipFile()
+
+    const zskip = readHexHeader(receiver.drainOutgoing())
+    expect(zskip.frame).toBe(Frame.ZSKIP)
+
+    const next = new Sender(false)
+    next.feedIncoming(createZrinit(1024, 0x21).encode())
+    next.startFile('second.txt', 10)
+    receiver.feedIncoming(next.drainOutgoing())
+    expect(receiver.pollEvent()).toBe('FileStart')
+    expect(receiver.getFileName()).toBe('second.txt')
+  })
+
+  it('should reject a decision when no file is offered', () => {
+    const receiver = new Receiver()
+    expect(() => receiver.acceptFile()).toThrow(UnsupportedError)
+    expect(() => receiver.skipFile()).toThrow(UnsupportedError)
+  })
+})
+
+describe('Sender ZSKIP handling', () => {
+  it('should emit FileSkipped and accept the next file', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('first.txt', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.skipFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    expect(sender.pollEvent()).toBe(SenderEvent.FileSkipped)
+    expect(sender.pollFile()).toBeNull()
+
+    sender.startFile('second.txt', 10)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe('FileStart')
+    expect(receiver.getFileName()).toBe('second.txt')
+  })
+
+  it('should finish the session after a skip when finish was requested', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 100)
+    sender.finishSession()
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.skipFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    expect(sender.pollEvent()).toBe(SenderEvent.FileSkipped)
+    expect(readHexHeader(sender.drainOutgoing()).frame).toBe(Frame.ZFIN)
+  })
+})
+
+describe('Resume', () => {
+  it('should transfer a whole file through the pump', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(20000)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data)
+    expect(result.received).toEqual(data)
+    expect(result.senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+    expect(result.receiverEvents).toEqual([ReceiverEvent.FileStart, ReceiverEvent.FileComplete, ReceiverEvent.SessionComplete])
+  })
+
+  it('should carry ZCRESUM in ZF0 of the ZFILE header', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('data.bin', 100, undefined, { conversion: Zconv.ZCRESUM })
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    expect(receiver.getFileConversion()).toBe(Zconv.ZCRESUM)
+  })
+
+  it('should send only the missing tail when resumed', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(30000)
+    sender.startFile('data.bin', data.length, undefined, { conversion: Zconv.ZCRESUM })
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data, (r) => r.acceptFile(12345))
+    expect(result.received).toEqual(data.subarray(12345))
+    expect(result.receiverEvents).toContain(ReceiverEvent.FileComplete)
+  })
+
+  it('should complete a resumed file that is already whole', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(1000)
+    sender.startFile('data.bin', data.length, undefined, { conversion: Zconv.ZCRESUM })
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data, (r) => r.acceptFile(data.length))
+    expect(result.received.length).toBe(0)
+    expect(result.receiverEvents).toEqual([ReceiverEvent.FileStart, ReceiverEvent.FileComplete, ReceiverEvent.SessionComplete])
+    expect(result.senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+  })
+})
+
+describe('ZCRC resume verification', () => {
+  it('should resume when the local prefix matches', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(30000)
+    const local = data.slice(0, 20000)
+    sender.startFile('data.bin', data.length, undefined, { conversion: Zconv.ZCRESUM })
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data, (r) => r.resumeFile(local.length, (len) => crc32IsoHdlc(local.subarray(0, len))))
+    expect(result.received).toEqual(data.subarray(local.length))
+    expect(result.receiverEvents).not.toContain(ReceiverEvent.ResumeRejected)
+  })
+
+  it('should restart from zero when the local prefix differs', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(30000)
+    const local = data.slice(0, 20000)
+    local[100] ^= 0xFF
+    sender.startFile('data.bin', data.length, undefined, { conversion: Zconv.ZCRESUM })
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data, (r) => r.resumeFile(local.length, (len) => crc32IsoHdlc(local.subarray(0, len))))
+    expect(result.received).toEqual(data)
+    expect(result.receiverEvents).toEqual([
+      ReceiverEvent.FileStart,
+      ReceiverEvent.ResumeRejected,
+      ReceiverEvent.FileComplete,
+      ReceiverEvent.SessionComplete
+    ])
+  })
+
+  it('should answer ZCRC with the CRC of the requested prefix', () => {
+    const sender = new Sender()
+    sender.drainOutgoing()
+    sender.feedIncoming(createZrinit(1024, 0x21).encode())
+    const data = makeData(20000)
+    sender.startFile('data.bin', data.length)
+    sender.drainOutgoing()
+
+    sender.feedIncoming(new Header(Encoding.ZHEX, Frame.ZCRC).withCount(10000).encode())
+    let request = sender.pollFile()
+    while (request !== null) {
+      sender.feedFile(data.subarray(request.offset, request.offset + request.len))
+      request = sender.pollFile()
+    }
+
+    const reply = readHexHeader(sender.drainOutgoing())
+    expect(reply.frame).toBe(Frame.ZCRC)
+    expect(reply.count).toBe(crc32IsoHdlc(data.subarray(0, 10000)))
+  })
+})
+
+describe('Session cancellation', () => {
+  it('should queue the cancel sequence on cancel()', () => {
+    const sender = new Sender()
+    sender.drainOutgoing()
+    sender.cancel()
+    expect(sender.drainOutgoing()).toEqual(CANCEL_SEQUENCE)
+    expect(() => sender.startFile('test.txt', 10)).toThrow(UnsupportedError)
+
+    const receiver = new Receiver()
+    receiver.drainOutgoing()
+    receiver.cancel()
+    expect(receiver.drainOutgoing()).toEqual(CANCEL_SEQUENCE)
+  })
+
+  it('should detect a cancel sequence while the sender waits for a header', () => {
+    const sender = new Sender()
+    sender.drainOutgoing()
+    sender.feedIncoming(CANCEL_SEQUENCE)
+    expect(sender.pollEvent()).toBe(SenderEvent.SessionCancelled)
+  })
+
+  it('should detect a cancel sequence split across header reads', () => {
+    const receiver = new Receiver()
+    receiver.drainOutgoing()
+    receiver.feedIncoming(new Uint8Array([0x2a, 0x18, 0x18]))
+    receiver.feedIncoming(new Uint8Array([0x18, 0x18, 0x18]))
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.SessionCancelled)
+  })
+
+  it('should detect a cancel sequence in the middle of a subpacket', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(1000)
+    sender.startFile('data.bin', data.length)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    const request = sender.pollFile()
+    expect(request).not.toBeNull()
+    if (request !== null) {
+      sender.feedFile(data.subarray(request.offset, request.offset + request.len))
+    }
+    const wire = sender.drainOutgoing()
+    receiver.feedIncoming(wire.subarray(0, 200))
+    receiver.feedIncoming(CANCEL_SEQUENCE)
+
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.SessionCancelled)
+    expect(receiver.drainFile().length).toBe(0)
+  })
+})
+
+describe('Error recovery', () => {
+  /**
+   * Returns a copy of `wire` with the byte at `index` replaced.
+   */
+  function corrupt (wire: Uint8Array, index: number): Uint8Array {
+    const copy = wire.slice()
+    copy[index] = copy[index] === 0x41 ? 0x42 : 0x41
+    return copy
+  }
+
+  it('should request a resend with ZRPOS after a data CRC error', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(20000)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+
+    let chunks = 0
+    const { received, receiverEvents } = pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      // The second chunk carries ZDATA and the first subpacket
+      return chunks === 2 ? corrupt(wire, 100) : wire
+    })
+
+    expect(received).toEqual(data)
+    expect(receiverEvents).toContain(ReceiverEvent.FileComplete)
+    expect(receiver.getStats()).toEqual({ dataErrors: 1, headerErrors: 0, consecutiveErrors: 0 })
+  })
+
+  it('should skip header-like data while resyncing after a data CRC error', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    // ZPAD followed by an escaped ZDLE looks like the start of a header
+    const data = makeData(400000)
+    for (let i = 0; i < data.length - 1; i += 1000) {
+      data.set([0x2a, 0x18], i)
+    }
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+
+    let chunks = 0
+    const { received, receiverEvents } = pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      // Corrupt the fourth subpacket, so the rest of the window is read as headers
+      return chunks === 5 ? corrupt(wire, 100) : wire
+    })
+
+    expect(received).toEqual(data)
+    expect(receiverEvents).toContain(ReceiverEvent.FileComplete)
+    expect(receiver.getStats()).toEqual({ dataErrors: 1, headerErrors: 0, consecutiveErrors: 0 })
+  })
+
+  it('should answer a corrupted header with ZNAK', () => {
+    const receiver = new Receiver()
+    receiver.drainOutgoing()
+
+    const zrqinit = ZRQINIT_HEADER.encode()
+    receiver.feedIncoming(corrupt(zrqinit, 6))
+
+    expect(readHexHeader(receiver.drainOutgoing()).frame).toBe(Frame.ZNAK)
+    expect(receiver.getStats().headerErrors).toBe(1)
+    expect(receiver.getStats().consecutiveErrors).toBe(1)
+  })
+
+  it('should answer a corrupted ZFILE subpacket with ZNAK and accept the resend', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 10)
+    const zfile = sender.drainOutgoing()
+    receiver.feedIncoming(corrupt(zfile, zfile.length - 8))
+    expect(readHexHeader(receiver.drainOutgoing()).frame).toBe(Frame.ZNAK)
+    expect(receiver.getStats().dataErrors).toBe(1)
+
+    receiver.feedIncoming(zfile)
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    expect(receiver.getFileName()).toBe('test.txt')
+    expect(receiver.getStats().consecutiveErrors).toBe(0)
+  })
+
+  it('should throw once the error budget is exhausted', () => {
+    const sender = new Sender()
+    const receiver = new Receiver({ maxErrors: 1 })
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 10)
+    const zfile = corrupt(sender.drainOutgoing(), 15)
+    receiver.feedIncoming(zfile)
+    receiver.drainOutgoing()
+    expect(() => receiver.feedIncoming(zfile)).toThrow(UnexpectedCrc32Error)
+  })
+})
+
+describe('Sender ZNAK handling', () => {
+  it('should resend a ZFILE whose header was garbled', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 10)
+    const zfile = sender.drainOutgoing()
+    const garbled = zfile.slice()
+    garbled[5] ^= 0x01
+    receiver.feedIncoming(garbled)
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    expect(sender.drainOutgoing()).toEqual(zfile)
+  })
+
+  it('should resend ZEOF and finish the file', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(100)
+    sender.startFile('test.txt', data.length)
+    let chunks = 0
+    const { received, senderEvents } = pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      // The third chunk is ZEOF, after ZFILE and the single data frame
+      if (chunks !== 3) {
+        return wire
+      }
+      const garbled = wire.slice()
+      garbled[5] ^= 0x01
+      return garbled
+    })
+    expect(received).toEqual(data)
+    expect(senderEvents).toContain(SenderEvent.FileComplete)
+    expect(receiver.getStats().headerErrors).toBe(1)
+
+    // Replay a NAK after ZEOF was answered to check that nothing is resent
+    sender.feedIncoming(ZNAK_HEADER.encode())
+    expect(sender.drainOutgoing().length).toBe(0)
+  })
+
+  it('should throw after too many retries', () => {
+    const sender = new Sender()
+    const zrqinit = sender.drainOutgoing()
+
+    for (let i = 0; i < MAX_RETRIES; i++) {
+      sender.feedIncoming(ZNAK_HEADER.encode())
+      expect(sender.drainOutgoing()).toEqual(zrqinit)
+    }
+    expect(() => sender.feedIncoming(ZNAK_HEADER.encode())).toThrow(TooManyRetriesError)
+  })
+})
+
+describe('Timeouts', () => {
+  it('should resend ZRQINIT after the timeout', () => {
+    const sender = new Sender({ timeout: 1000 })
+    const zrqinit = sender.drainOutgoing()
+
+    sender.tick(0)
+    sender.tick(999)
+    expect(sender.drainOutgoing().length).toBe(0)
+    sender.tick(1000)
+    expect(sender.drainOutgoing()).toEqual(zrqinit)
+  })
+
+  it('should throw TimeoutError after the retry limit', () => {
+    const sender = new Sender({ timeout: 1000, maxRetries: 2 })
+    sender.drainOutgoing()
+
+    sender.tick(0)
+    sender.tick(1000)
+    sender.drainOutgoing()
+    sender.tick(1000)
+    sender.tick(2000)
+    sender.drainOutgoing()
+    sender.tick(2000)
+    expect(() => sender.tick(3000)).toThrow(TimeoutError)
+  })
+
+  it('should keep the boolean initiator argument', () => {
+    const sender = new Sender(false)
+    expect(sender.initiator).toBe(false)
+    expect(sender.drainOutgoing().length).toBe(0)
+  })
+
+  it('should resend ZEOF when the final ZRINIT is lost', () => {
+    const sender = new Sender({ timeout: 1000 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('empty.txt', 0)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    const zeof = sender.drainOutgoing()
+    expect(zeof).toEqual(ZEOF_HEADER.withCount(0).encode())
+    sender.tick(0)
+    sender.tick(1000)
+    expect(sender.drainOutgoing()).toEqual(zeof)
+  })
+
+  it('should ask for a resend with ZRPOS when the line goes silent during data', () => {
+    const sender = new Sender()
+    const receiver = new Receiver({ timeout: 1000 })
+    handshake(sender, receiver)
+
+    const data = makeData(1000)
+    sender.startFile('data.bin', data.length)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+    const request = sender.pollFile()
+    expect(request).not.toBeNull()
+    if (request !== null) {
+      sender.feedFile(data.subarray(request.offset, request.offset + request.len))
+    }
+
+    // Only part of the frame arrives
+    receiver.feedIncoming(sender.drainOutgoing().subarray(0, 300))
+    receiver.tick(0)
+    receiver.tick(999)
+    expect(receiver.drainOutgoing().length).toBe(0)
+    receiver.tick(1000)
+
+    const zrpos = readHexHeader(receiver.drainOutgoing())
+    expect(zrpos.frame).toBe(Frame.ZRPOS)
+    expect(zrpos.count).toBe(0)
+
+    // The sender restarts from the requested offset
+    sender.feedIncoming(ZRPOS_HEADER.withCount(zrpos.count).encode())
+    expect(sender.pollFile()).toEqual({ offset: 0, len: 1000 })
+  })
+
+  it('should not time out while waiting on the host', () => {
+    const sender = new Sender()
+    const receiver = new Receiver({ timeout: 1000, maxRetries: 0 })
+    handshake(sender, receiver)
+
+    sender.startFile('test.txt', 10)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.tick(0)
+    receiver.tick(5000)
+    expect(receiver.drainOutgoing().length).toBe(0)
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+})
+
+describe('Escaping', () => {
+  /**
+   * Returns true if `wire` has a raw 7-bit control character other than ZDLE.
+   */
+  function hasRawControl (wire: Uint8Array): boolean {
+    return wire.some((byte) => byte < 0x20 && byte !== 0x18)
+  }
+
+  /**
+   * Runs the handshake and returns the first data frame for `data`.
+   */
+  function firstDataFrame (sender: Sender, receiver: Receiver, data: Uint8Array): Uint8Array {
+    sender.startFile('data.bin', data.length)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+    const request = sender.pollFile()
+    if (request !== null) {
+      sender.feedFile(data.subarray(request.offset, request.offset + request.len))
+    }
+    return sender.drainOutgoing()
+  }
+
+  it('should escape control characters when the receiver asks for ESCCTL', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.drainOutgoing()
+    sender.feedIncoming(createZrinit(1024, Zrinit.CANFDX | Zrinit.CANFC32 | Zrinit.ESCCTL).encode())
+
+    expect(hasRawControl(firstDataFrame(sender, receiver, makeData(1000)))).toBe(false)
+  })
+
+  it('should escape control characters with the escapeControl option', () => {
+    const sender = new Sender({ escapeControl: true })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    expect(hasRawControl(firstDataFrame(sender, receiver, makeData(1000)))).toBe(false)
+  })
+
+  it('should transfer a file with all bytes escaped', () => {
+    const sender = new Sender({ escapeControl: true, escape8: true })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = new Uint8Array(512)
+    for (let i = 0; i < data.length; i++) {
+      data[i] = i & 0xFF
+    }
+    sender.startFile('bytes.bin', data.length)
+    const { received } = pump(sender, receiver, data)
+    expect(received).toEqual(data)
+  })
+})
+
+describe('Flow control', () => {
+  /**
+   * Completes the handshake with a hand-made ZRINIT and returns the first file request.
+   */
+  function firstRequest (sender: Sender, receiver: Receiver, zrinit: Header, size: number): ReturnType<Sender['pollFile']> {
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.drainOutgoing()
+    sender.feedIncoming(zrinit.encode())
+    sender.startFile('data.bin', size)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+    return sender.pollFile()
+  }
+
+  it('should cap subpackets at the advertised buffer size in strict mode', () => {
+    const sender = new Sender({ flowControl: FlowControl.Strict })
+    const receiver = new Receiver()
+    const request = firstRequest(sender, receiver, createZrinit(1024, Zrinit.CANFDX | Zrinit.CANOVIO | Zrinit.CANFC32), 5000)
+    expect(request).toEqual({ offset: 0, len: 1024 })
+
+    // The window is full after one subpacket, so it ends with ZCRCW
+    sender.feedFile(makeData(1024))
+    expect(sender.pollFile()).toBeNull()
+  })
+
+  it('should send multiple subpackets per window when the buffer allows', () => {
+    const sender = new Sender({ flowControl: FlowControl.Strict })
+    const receiver = new Receiver()
+    const request = firstRequest(sender, receiver, createZrinit(16384, Zrinit.CANFDX | Zrinit.CANOVIO | Zrinit.CANFC32), 40000)
+    expect(request).toEqual({ offset: 0, len: 8192 })
+
+    sender.feedFile(makeData(8192))
+    expect(sender.pollFile()).toEqual({ offset: 8192, len: 8192 })
+    sender.drainOutgoing()
+    sender.feedFile(makeData(8192))
+    expect(sender.pollFile()).toBeNull()
+  })
+
+  it('should wait for ZACK after each subpacket without CANFDX in strict mode', () => {
+    const sender = new Sender({ flowControl: FlowControl.Strict })
+    const receiver = new Receiver()
+    firstRequest(sender, receiver, createZrinit(0, Zrinit.CANOVIO | Zrinit.CANFC32), 20000)
+
+    sender.feedFile(makeData(8192))
+    expect(sender.pollFile()).toBeNull()
+  })
+
+  it('should ignore the buffer size in aggressive mode', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const request = firstRequest(sender, receiver, createZrinit(1024, Zrinit.CANFDX | Zrinit.CANOVIO | Zrinit.CANFC32), 20000)
+    expect(request).toEqual({ offset: 0, len: 8192 })
+  })
+
+  it('should transfer a file in strict mode', () => {
+    const sender = new Sender({ flowControl: FlowControl.Strict })
+    const receiver = new Receiver()
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.drainOutgoing()
+    sender.feedIncoming(createZrinit(1024, Zrinit.CANFC32).encode())
+
+    const data = makeData(5000)
+    sender.startFile('data.bin', data.length)
+    const { received, senderEvents } = pump(sender, receiver, data)
+    expect(received).toEqual(data)
+    expect(senderEvents).toContain(SenderEvent.FileComplete)
+  })
+})
+
+describe('CRC-16 data mode', () => {
+  it('should fall back to ZBIN when the receiver lacks CANFC32', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.drainOutgoing()
+    sender.feedIncoming(createZrinit(0, Zrinit.CANFDX | Zrinit.CANOVIO).encode())
+
+    sender.startFile('data.bin', 3000)
+    const zfile = sender.drainOutgoing()
+    expect(zfile[2]).toBe(Encoding.ZBIN)
+
+    receiver.feedIncoming(zfile)
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    expect(receiver.getFileSize()).toBe(3000)
+  })
+
+  it('should transfer a file with the crc16 option', () => {
+    const sender = new Sender({ crc16: true })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(20000)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+    const { received, senderEvents } = pump(sender, receiver, data)
+
+    expect(received).toEqual(data)
+    expect(senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+  })
+})
+
+describe('Receiver options', () => {
+  it('should advertise the configured buffer size and capabilities', () => {
+    const receiver = new Receiver({ bufferSize: 2048, capabilities: Zrinit.CANFC32 | Zrinit.ESCCTL })
+    const zrinit = readHexHeader(receiver.drainOutgoing())
+
+    expect(zrinit.frame).toBe(Frame.ZRINIT)
+    expect(zrinit.flags[0] | (zrinit.flags[1] << 8)).toBe(2048)
+    expect(zrinit.flags[3]).toBe(Zrinit.CANFC32 | Zrinit.ESCCTL)
+  })
+
+  it('should reject a buffer size that does not fit ZRINIT', () => {
+    expect(() => new Receiver({ bufferSize: 0x10000 })).toThrow(UnsupportedError)
+  })
+
+  it('should transfer a file with a small buffer and CRC-16', () => {
+    const sender = new Sender({ flowControl: FlowControl.Strict })
+    const receiver = new Receiver({ bufferSize: 1024, capabilities: Zrinit.CANFDX })
+    handshake(sender, receiver)
+
+    const data = makeData(5000)
+    sender.startFile('data.bin', data.length)
+    const { received } = pump(sender, receiver, data)
+    expect(received).toEqual(data)
+  })
+
+  it('should skip files above maxFileSize', () => {
+    const sender = new Sender()
+    const receiver = new Receiver({ maxFileSize: 100 })
+    handshake(sender, receiver)
+
+    const data = makeData(1000)
+    sender.startFile('big.bin', data.length)
+    sender.finishSession()
+    const { received, senderEvents, receiverEvents } = pump(sender, receiver, data)
+
+    expect(received.length).toBe(0)
+    expect(receiverEvents).toEqual([ReceiverEvent.FileSkipped, ReceiverEvent.SessionComplete])
+    expect(senderEvents).toEqual([SenderEvent.FileSkipped, SenderEvent.SessionComplete])
+  })
+})
+
+describe('Sender options', () => {
+  it('should use the configured subpacket size and window', () => {
+    const sender = new Sender({ subpacketSize: 512, subpacketsPerAck: 2 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.startFile('data.bin', 5000)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    expect(sender.pollFile()).toEqual({ offset: 0, len: 512 })
+    sender.feedFile(makeData(512))
+    expect(sender.pollFile()).toEqual({ offset: 512, len: 512 })
+    sender.drainOutgoing()
+    sender.feedFile(makeData(512))
+    expect(sender.pollFile()).toBeNull()
+  })
+
+  it('should reject out of range sizes', () => {
+    expect(() => new Sender({ subpacketSize: SUBPACKET_MAX_SIZE + 1 })).toThrow(UnsupportedError)
+    expect(() => new Sender({ subpacketSize: 0 })).toThrow(UnsupportedError)
+    expect(() => new Sender({ subpacketsPerAck: 0 })).toThrow(UnsupportedError)
+  })
+
+  it('should transfer a file with small subpackets', () => {
+    const sender = new Sender({ subpacketSize: 100, subpacketsPerAck: 3 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(2000)
+    sender.startFile('data.bin', data.length)
+    const { received } = pump(sender, receiver, data)
+    expect(received).toEqual(data)
+  })
+})
+
+describe('Streaming window', () => {
+  /**
+   * Completes the handshake, accepts the file and returns the sender ready for data.
+   */
+  function startStreaming (sender: Sender, receiver: Receiver, size: number): void {
+    handshake(sender, receiver)
+    sender.startFile('data.bin', size)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+  }
+
+  /**
+   * Returns the subpacket type that ends a data chunk: the byte before the CRC-32.
+   */
+  function subpacketKind (wire: Uint8Array): number {
+    let end = wire.length
+    for (let crcBytes = 0; crcBytes < 4; crcBytes++) {
+      end -= wire[end - 2] === 0x18 ? 2 : 1
+    }
+    return wire[end - 1]
+  }
+
+  it('should request ZACKs with ZCRCQ and pause when the window is full', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 2, streamingWindow: 4096 })
+    const receiver = new Receiver()
+    startStreaming(sender, receiver, 10000)
+
+    const kinds: number[] = []
+    for (let i = 0; i < 4; i++) {
+      const request = sender.pollFile()
+      expect(request).toEqual({ offset: i * 1024, len: 1024 })
+      sender.feedFile(makeData(1024))
+      kinds.push(subpacketKind(sender.drainOutgoing()))
+    }
+    expect(kinds).toEqual([SubpacketType.ZCRCG, SubpacketType.ZCRCQ, SubpacketType.ZCRCG, SubpacketType.ZCRCQ])
+    expect(sender.pollFile()).toBeNull()
+
+    sender.feedIncoming(ZACK_HEADER.withCount(2048).encode())
+    expect(sender.pollFile()).toEqual({ offset: 4096, len: 1024 })
+  })
+
+  it('should read ZACKs while a file request is pending', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 1, streamingWindow: 2048 })
+    const receiver = new Receiver()
+    startStreaming(sender, receiver, 10000)
+
+    sender.feedFile(makeData(1024))
+    sender.drainOutgoing()
+    const ack = ZACK_HEADER.withCount(1024).encode()
+    expect(sender.feedIncoming(ack)).toBe(ack.length)
+
+    sender.feedFile(makeData(1024))
+    sender.drainOutgoing()
+    // Only 1024 bytes are unacknowledged, so the window is still open
+    expect(sender.pollFile()).toEqual({ offset: 2048, len: 1024 })
+  })
+
+  it('should transfer a file through the window', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 4, streamingWindow: 8192 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(50000)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+    const { received, senderEvents } = pump(sender, receiver, data)
+
+    expect(received).toEqual(data)
+    expect(senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+  })
+
+  it('should resend from the ZRPOS offset after a CRC error', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 4, streamingWindow: 8192 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const data = makeData(50000)
+    sender.startFile('data.bin', data.length)
+    let chunks = 0
+    const { received, senderEvents } = pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      if (chunks !== 10) {
+        return wire
+      }
+      const garbled = wire.slice()
+      garbled[100] ^= 0x01
+      return garbled
+    })
+
+    expect(received).toEqual(data)
+    expect(senderEvents).toEqual([SenderEvent.FileComplete])
+    expect(receiver.getStats().dataErrors).toBe(1)
+  })
+})
+
+describe('Adaptive sizing', () => {
+  /**
+   * Accepts a file and returns the sender ready for data.
+   */
+  function startSending (sender: Sender, size: number): void {
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('data.bin', size)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+  }
+
+  /**
+   * Serves the pending request and returns the offset after it.
+   */
+  function sendFrame (sender: Sender): number {
+    const request = sender.pollFile()
+    if (request === null) {
+      throw new Error('no file request')
+    }
+    sender.feedFile(makeData(request.len))
+    sender.drainOutgoing()
+    return request.offset + request.len
+  }
+
+  it('should shrink after repeated retransmissions', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 1 })
+    startSending(sender, 100000)
+
+    sendFrame(sender)
+    sender.feedIncoming(ZRPOS_HEADER.withCount(0).encode())
+    expect(sender.getSubpacketSize()).toBe(1024)
+    sendFrame(sender)
+    sender.feedIncoming(ZRPOS_HEADER.withCount(0).encode())
+
+    expect(sender.getRetransmitCount()).toBe(2)
+    expect(sender.getSubpacketSize()).toBe(512)
+    expect(sender.pollFile()).toEqual({ offset: 0, len: 512 })
+  })
+
+  it('should grow back after clean windows', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 1 })
+    startSending(sender, 100000)
+
+    for (let i = 0; i < 2; i++) {
+      sendFrame(sender)
+      sender.feedIncoming(ZRPOS_HEADER.withCount(0).encode())
+    }
+    expect(sender.getSubpacketSize()).toBe(512)
+
+    for (let i = 0; i < 8; i++) {
+      const offset = sendFrame(sender)
+      sender.feedIncoming(ZACK_HEADER.withCount(offset).encode())
+    }
+    expect(sender.getSubpacketSize()).toBe(1024)
+  })
+
+  it('should shrink the streaming window with the subpacket size', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 4, streamingWindow: 8192 })
+    startSending(sender, 100000)
+    expect(sender.getStreamingWindow()).toBe(8192)
+
+    for (let i = 0; i < 2; i++) {
+      sendFrame(sender)
+      sender.feedIncoming(ZRPOS_HEADER.withCount(0).encode())
+    }
+    expect(sender.getSubpacketSize()).toBe(512)
+    expect(sender.getSubpacketsPerAck()).toBe(2)
+    expect(sender.getStreamingWindow()).toBe(4096)
+  })
+
+  it('should keep its sizes when adaptive is off', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 1, adaptive: false })
+    startSending(sender, 100000)
+
+    for (let i = 0; i < 4; i++) {
+      sendFrame(sender)
+      sender.feedIncoming(ZRPOS_HEADER.withCount(0).encode())
+    }
+    expect(sender.getRetransmitCount()).toBe(4)
+    expect(sender.getSubpacketSize()).toBe(1024)
+  })
+})
+
+describe('Batch sending', () => {
+  it('should send queued files one after another', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    const data = makeData(6000)
+    sender.sendFiles([
+      { name: 'a.bin', size: 1000 },
+      { name: 'b.bin', size: 6000 },
+      { name: 'c.bin', size: 300 }
+    ])
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data)
+    expect(result.received).toEqual(new Uint8Array([...data.subarray(0, 1000), ...data, ...data.subarray(0, 300)]))
+    expect(result.senderEvents).toEqual([
+      SenderEvent.FileComplete,
+      SenderEvent.FileComplete,
+      SenderEvent.FileComplete,
+      SenderEvent.SessionComplete
+    ])
+    expect(result.receiverEvents.filter(e => e === ReceiverEvent.FileStart)).toHaveLength(3)
+  })
+
+  it('should report the file index of each event', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    sender.sendFiles([{ name: 'a.bin', size: 100 }, { name: 'b.bin', size: 100 }])
+    sender.finishSession()
+    handshake(sender, receiver)
+
+    let offered = 0
+    const indices: Array<[SenderEvent, number]> = []
+    for (let round = 0; round < 100; round++) {
+      const request = sender.pollFile()
+      if (request !== null) {
+        sender.feedFile(makeData(request.len))
+      }
+      receiver.feedIncoming(sender.drainOutgoing())
+      receiver.drainFile()
+      if (receiver.pollEvent() === ReceiverEvent.FileStart) {
+        if (offered++ === 0) {
+          receiver.skipFile()
+        } else {
+          receiver.acceptFile()
+        }
+      }
+      sender.feedIncoming(receiver.drainOutgoing())
+      let event: SenderEvent | null
+      while ((event = sender.pollEvent()) !== null) {
+        indices.push([event, sender.getEventFileIndex()])
+      }
+    }
+
+    expect(indices).toEqual([
+      [SenderEvent.FileSkipped, 0],
+      [SenderEvent.FileComplete, 1],
+      [SenderEvent.SessionComplete, 1]
+    ])
+    expect(sender.getFileIndex()).toBe(1)
+  })
+
+  it('should carry the files and bytes remaining in the ZFILE info', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.sendFiles([
+      { name: 'a.bin', size: 200, mtime: 0o1000 * 1000, mode: 0o100644 },
+      { name: 'b.bin', size: 300 }
+    ])
+
+    const wire = sender.drainOutgoing()
+    expect(new TextDecoder().decode(wire)).toContain('a.bin\x00200 1000 100644 0 2 500\x00')
+
+    receiver.feedIncoming(wire)
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    expect(receiver.getFileSize()).toBe(200)
+    expect(receiver.getFileMtime()).toBe(0o1000 * 1000)
+  })
+})
+
+describe('File metadata', () => {
+  it('should pass every ZFILE field to the receiver', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('data.bin', 4096, 1700000000000, {
+      mode: 0o100755,
+      serial: 0o17,
+      filesRemaining: 3,
+      bytesRemaining: 10000
+    })
+    receiver.feedIncoming(sender.drainOutgoing())
+
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    expect(receiver.getFileInfo()).toEqual({
+      name: 'data.bin',
+      size: 4096,
+      mtime: 1700000000000,
+      mode: 0o100755,
+      serial: 0o17,
+      filesRemaining: 3,
+      bytesRemaining: 10000
+    })
+  })
+
+  it('should leave out trailing fields that are not known', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('data.bin', 4096, undefined, { mode: 0o644 })
+
+    const wire = sender.drainOutgoing()
+    expect(new TextDecoder().decode(wire)).toContain('data.bin\x004096 0 644\x00')
+
+    receiver.feedIncoming(wire)
+    receiver.pollEvent()
+    expect(receiver.getFileInfo()).toMatchObject({ size: 4096, mtime: 0, mode: 0o644, filesRemaining: 0, bytesRemaining: 0 })
+  })
+})
+
+describe('File management options', () => {
+  /**
+   * Offers a file with the given ZFILE options and returns the receiver waiting for a decision.
+   */
+  function offer (options: SendFileOptions, mtime = 2000000): { sender: Sender, receiver: Receiver } {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('data.bin', 1000, mtime, options)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+    return { sender, receiver }
+  }
+
+  it('should carry the ZF1, ZF2 and ZF3 options to the receiver', () => {
+    const { receiver } = offer({ management: Zmanage.ZMNEW | Zmanage.ZMSKNOLOC, transport: Ztrans.ZTRLE, extended: Zext.ZXSPARS })
+    expect(receiver.getFileManagement()).toBe(Zmanage.ZMNEW | Zmanage.ZMSKNOLOC)
+    expect(receiver.getFileTransport()).toBe(Ztrans.ZTRLE)
+    expect(receiver.getFileExtended()).toBe(Zext.ZXSPARS)
+  })
+
+  it('should transfer only newer files with ZMNEW', () => {
+    const older = offer({ management: Zmanage.ZMNEW }, 1000000)
+    expect(older.receiver.decideFile({ size: 1000, mtime: 2000000 })).toBe(FileAction.Skip)
+    expect(readHexHeader(older.receiver.drainOutgoing()).frame).toBe(Frame.ZSKIP)
+
+    const newer = offer({ management: Zmanage.ZMNEW }, 3000000)
+    expect(newer.receiver.decideFile({ size: 1000, mtime: 2000000 })).toBe(FileAction.Write)
+    const zrpos = readHexHeader(newer.receiver.drainOutgoing())
+    expect(zrpos.frame).toBe(Frame.ZRPOS)
+    expect(zrpos.count).toBe(0)
+  })
+
+  it('should append with ZMAPND and resume with ZCRESUM', () => {
+    const append = offer({ management: Zmanage.ZMAPND })
+    expect(append.receiver.decideFile({ size: 400 })).toBe(FileAction.Append)
+    expect(readHexHeader(append.receiver.drainOutgoing()).count).toBe(0)
+
+    const resume = offer({ conversion: Zconv.ZCRESUM })
+    expect(resume.receiver.decideFile({ size: 400 })).toBe(FileAction.Resume)
+    expect(readHexHeader(resume.receiver.drainOutgoing()).count).toBe(400)
+  })
+
+  it('should skip missing files with ZMSKNOLOC and protect files with ZMPROT', () => {
+    expect(offer({ management: Zmanage.ZMCLOB | Zmanage.ZMSKNOLOC }).receiver.decideFile(null)).toBe(FileAction.Skip)
+    expect(offer({ management: Zmanage.ZMPROT }).receiver.decideFile({ size: 10 })).toBe(FileAction.Skip)
+    expect(offer({ management: Zmanage.ZMPROT }).receiver.decideFile(null)).toBe(FileAction.Write)
+  })
+})
+
+describe('Text conversion', () => {
+  /**
+   * Creates a text file with LF line endings.
+   */
+  function makeText (lines: number): Uint8Array {
+    let text = ''
+    for (let i = 0; i < lines; i++) {
+      text += `line ${i}\n`
+    }
+    return new TextEncoder().encode(text)
+  }
+
+  it('should mark text files with ZCNL', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('notes.txt', 100, undefined, { text: true })
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    expect(receiver.getFileConversion()).toBe(Zconv.ZCNL)
+  })
+
+  it('should deliver text with the receiver line ending', () => {
+    const data = makeText(500)
+    const crlf = new TextEncoder().encode(new TextDecoder().decode(data).replaceAll('\n', '\r\n'))
+
+    for (const [lineEnding, expected] of [[LineEnding.Lf, data], [LineEnding.Crlf, crlf]] as const) {
+      const sender = new Sender({ subpacketSize: 256 })
+      const receiver = new Receiver({ lineEnding })
+      sender.startFile('notes.txt', data.length, undefined, { text: true })
+      sender.finishSession()
+
+      const result = pump(sender, receiver, data)
+      expect(result.received).toEqual(expected)
+      expect(result.senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+    }
+  })
+
+  it('should resume text at the right file offset after a data error', () => {
+    const data = makeText(500)
+    const sender = new Sender({ subpacketSize: 256, subpacketsPerAck: 1 })
+    const receiver = new Receiver()
+    sender.startFile('notes.txt', data.length, undefined, { text: true })
+    sender.finishSession()
+
+    let chunks = 0
+    const result = pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      // Corrupt a subpacket well into the file so ZRPOS points past offset 0
+      if (chunks !== 8) {
+        return wire
+      }
+      const copy = wire.slice()
+      copy[wire.length - 8] ^= 0x01
+      return copy
+    })
+
+    expect(receiver.getStats().dataErrors).toBe(1)
+    expect(result.received).toEqual(data)
+  })
+
+  it('should refuse to resume a text file', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('notes.txt', 100, undefined, { text: true, management: Zmanage.ZMCRC })
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+
+    expect(() => receiver.acceptFile(50)).toThrow(UnsupportedError)
+    expect(() => receiver.resumeFile(50, () => 0)).toThrow(UnsupportedError)
+    // ZMCRC with an equal length would otherwise compare CRCs and resume at the end
+    expect(receiver.decideFile({ size: 100, crc: () => 0 })).toBe(FileAction.Write)
+    expect(readHexHeader(receiver.drainOutgoing()).count).toBe(0)
+  })
+
+  it('should cancel when the receiver asks for a text offset between subpackets', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('notes.txt', 100, undefined, { text: true })
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.drainOutgoing()
+
+    const zrpos = new Header(Encoding.ZHEX, Frame.ZRPOS).withCount(50).encode()
+    expect(() => sender.feedIncoming(zrpos)).toThrow(UnsupportedError)
+    expect(sender.drainOutgoing()).toEqual(CANCEL_SEQUENCE)
+    expect(sender.isDone()).toBe(true)
+  })
+})
+
+describe('ZSINIT', () => {
+  const attention = new Uint8Array([0x03, 0x18, 0x41])
+
+  it('should send ZSINIT and wait for its ZACK before ZFILE', () => {
+    const sender = new Sender({ attention, remoteEscapeControl: true })
+    const receiver = new Receiver()
+    sender.startFile('data.bin', 100)
+    handshake(sender, receiver)
+
+    const zsinit = sender.drainOutgoing()
+    const flags = new Uint8Array(4)
+    flags[ZF0] = Zsinit.TESCCTL
+    const header = new Header(Encoding.ZBIN32, Frame.ZSINIT, flags).encode()
+    expect(zsinit.subarray(0, header.length)).toEqual(header)
+
+    receiver.feedIncoming(zsinit)
+    const zack = readHexHeader(receiver.drainOutgoing())
+    expect(zack.frame).toBe(Frame.ZACK)
+    expect(receiver.getAttention()).toEqual(attention)
+
+    sender.feedIncoming(zack.encode())
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+
+  it('should only apply a ZSINIT that passes its CRC check', () => {
+    const sender = new Sender({ attention, remoteEscapeControl: true, remoteEscape8: true })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    const zsinit = sender.drainOutgoing()
+    const damaged = zsinit.slice()
+    damaged[damaged.length - 8] ^= 0x01
+    receiver.feedIncoming(damaged)
+    expect(readHexHeader(receiver.drainOutgoing()).frame).toBe(Frame.ZNAK)
+    expect(receiver.getAttention().length).toBe(0)
+    expect(receiver.getRemoteEscaping()).toBe(0)
+
+    // Replies stay plain hex headers whatever escaping was asked for
+    receiver.feedIncoming(zsinit)
+    expect(receiver.drainOutgoing()).toEqual(ZACK_HEADER.withCount(1).encode())
+    expect(receiver.getAttention()).toEqual(attention)
+    expect(receiver.getRemoteEscaping()).toBe(Zsinit.TESCCTL | Zsinit.TESC8)
+  })
+
+  it('should resend ZSINIT after a ZNAK', () => {
+    const sender = new Sender({ attention })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    const zsinit = sender.drainOutgoing()
+
+    sender.feedIncoming(ZNAK_HEADER.encode())
+    expect(sender.drainOutgoing()).toEqual(zsinit)
+  })
+
+  it('should write the attention string before ZRPOS after a data error', () => {
+    const sender = new Sender({ attention })
+    const receiver = new Receiver()
+    const data = makeData(20000)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+
+    let receiverReplies = 0
+    let chunks = 0
+    pump(sender, receiver, data, undefined, (wire) => {
+      chunks++
+      if (chunks !== 4) {
+        return wire
+      }
+      const copy = wire.slice()
+      copy[100] ^= 0x01
+      // The receiver answers the bad subpacket right away
+      receiver.feedIncoming(copy)
+      const reply = receiver.drainOutgoing()
+      expect(Array.from(reply.subarray(0, attention.length))).toEqual(Array.from(attention))
+      expect(readHexHeader(reply.subarray(attention.length)).frame).toBe(Frame.ZRPOS)
+      receiverReplies++
+      sender.feedIncoming(reply)
+      return new Uint8Array(0)
+    })
+
+    expect(receiverReplies).toBe(1)
+    expect(receiver.getStats().dataErrors).toBe(1)
+  })
+})
+
+describe('Remote commands', () => {
+  /**
+   * Sends a command from a sender that is ready for a file and returns the receiver's reply.
+   */
+  function runCommand (receiver: Receiver, command: string): { sender: Sender, reply: Uint8Array } {
+    const sender = new Sender()
+    handshake(sender, receiver)
+    sender.sendCommand(command)
+    receiver.feedIncoming(sender.drainOutgoing())
+    return { sender, reply: receiver.drainOutgoing() }
+  }
+
+  it('should reject commands without a policy', () => {
+    const receiver = new Receiver()
+    const { sender, reply } = runCommand(receiver, 'rm -rf /')
+
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.CommandRejected)
+    expect(receiver.getCommand()).toBe('rm -rf /')
+    const zcompl = readHexHeader(reply)
+    expect(zcompl.frame).toBe(Frame.ZCOMPL)
+    expect(zcompl.count).toBe(1)
+
+    sender.feedIncoming(reply)
+    expect(sender.pollEvent()).toBe(SenderEvent.CommandComplete)
+    expect(sender.getCommandStatus()).toBe(1)
+  })
+
+  it('should answer allowed commands with the status from completeCommand', () => {
+    const receiver = new Receiver({ commandPolicy: (command) => command.startsWith('chmod ') })
+    const { sender, reply } = runCommand(receiver, 'chmod 755 run.sh')
+
+    expect(reply.length).toBe(0)
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Command)
+    expect(receiver.getCommand()).toBe('chmod 755 run.sh')
+    receiver.completeCommand(0)
+
+    sender.feedIncoming(receiver.drainOutgoing())
+    expect(sender.pollEvent()).toBe(SenderEvent.CommandComplete)
+    expect(sender.getCommandStatus()).toBe(0)
+
+    // The session carries on with files afterwards
+    sender.startFile('data.bin', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+
+  it('should only send commands between files', () => {
+    const sender = new Sender()
+    expect(() => sender.sendCommand('ls')).toThrow(UnsupportedError)
+  })
+
+  it('should limit the command length', () => {
+    const sender = new Sender()
+    handshake(sender, new Receiver())
+    expect(() => sender.sendCommand('x'.repeat(SUBPACKET_MAX_SIZE))).toThrow(UnsupportedError)
+    sender.sendCommand('x'.repeat(SUBPACKET_MAX_SIZE - 1))
+  })
+
+  it('should reject a command too long to read without running it', () => {
+    const receiver = new Receiver({ commandPolicy: () => true })
+    receiver.drainOutgoing()
+
+    receiver.feedIncoming(binaryFrame(Frame.ZCOMMAND, new TextEncoder().encode('x'.repeat(9000) + '\0')))
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.CommandRejected)
+    const zcompl = readHexHeader(receiver.drainOutgoing())
+    expect(zcompl.frame).toBe(Frame.ZCOMPL)
+    expect(zcompl.count).toBe(1)
+    expect(receiver.getStats().dataErrors).toBe(0)
+  })
+
+  it('should answer a resent command without running it again', () => {
+    const receiver = new Receiver({ commandPolicy: () => true, timeout: 100 })
+    const { sender } = runCommand(receiver, 'chmod 644 data.bin')
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Command)
+    receiver.completeCommand(0)
+
+    // The ZCOMPL is lost, so the receiver times out and repeats ZRINIT
+    receiver.drainOutgoing()
+    receiver.tick(0)
+    receiver.tick(200)
+    sender.feedIncoming(receiver.drainOutgoing())
+    const resent = sender.drainOutgoing()
+    expect(resent.length).toBeGreaterThan(0)
+
+    receiver.feedIncoming(resent)
+    expect(receiver.pollEvent()).toBeNull()
+    const reply = receiver.drainOutgoing()
+    expect(readHexHeader(reply).frame).toBe(Frame.ZCOMPL)
+    sender.feedIncoming(reply)
+    expect(sender.pollEvent()).toBe(SenderEvent.CommandComplete)
+    expect(sender.getCommandStatus()).toBe(0)
+
+    // After another frame the same command is a new one
+    sender.queryFreeSpace()
+    receiver.feedIncoming(sender.drainOutgoing())
+    sender.feedIncoming(receiver.drainOutgoing())
+    sender.sendCommand('chmod 644 data.bin')
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Command)
+  })
+
+  it('should run an identical command sent twice in a row both times', () => {
+    const receiver = new Receiver({ commandPolicy: () => true })
+    const { sender } = runCommand(receiver, 'sync')
+
+    for (let run = 0; run < 2; run++) {
+      expect(receiver.pollEvent()).toBe(ReceiverEvent.Command)
+      receiver.completeCommand(run)
+      sender.feedIncoming(receiver.drainOutgoing())
+      expect(sender.pollEvent()).toBe(SenderEvent.CommandComplete)
+      expect(sender.getCommandStatus()).toBe(run)
+      if (run === 0) {
+        sender.sendCommand('sync')
+        receiver.feedIncoming(sender.drainOutgoing())
+      }
+    }
+  })
+})
+
+describe('Free space', () => {
+  /**
+   * Runs a ZFREECNT query between a sender ready for a file and the receiver.
+   */
+  function query (sender: Sender, receiver: Receiver): void {
+    handshake(sender, receiver)
+    sender.queryFreeSpace()
+    receiver.feedIncoming(sender.drainOutgoing())
+    sender.feedIncoming(receiver.drainOutgoing())
+  }
+
+  it('should report the receiver free space', () => {
+    const sender = new Sender()
+    query(sender, new Receiver({ freeSpace: () => 123456 }))
+
+    expect(sender.pollEvent()).toBe(SenderEvent.FreeSpace)
+    expect(sender.getFreeSpace()).toBe(123456)
+  })
+
+  it('should report unknown free space without a callback', () => {
+    const sender = new Sender()
+    query(sender, new Receiver())
+    expect(sender.getFreeSpace()).toBe(0xFFFFFFFF)
+  })
+
+  it('should refuse files larger than the free space when checking', () => {
+    const sender = new Sender({ checkFreeSpace: true })
+    const receiver = new Receiver({ freeSpace: () => 1000 })
+    query(sender, receiver)
+
+    expect(() => sender.startFile('big.bin', 1001)).toThrow(InsufficientSpaceError)
+    sender.startFile('small.bin', 1000)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+
+  it('should pass over queued files larger than the free space', () => {
+    const sender = new Sender({ checkFreeSpace: true })
+    const receiver = new Receiver({ freeSpace: () => 6000 })
+    const data = makeData(5000)
+    query(sender, receiver)
+    expect(sender.pollEvent()).toBe(SenderEvent.FreeSpace)
+
+    sender.sendFiles([
+      { name: 'big.bin', size: 7000 },
+      { name: 'a.bin', size: 5000 },
+      { name: 'b.bin', size: 5000 },
+      { name: 'c.bin', size: 100 },
+      { name: 'd.bin', size: 100 }
+    ])
+    sender.finishSession()
+
+    const result = pump(sender, receiver, data)
+    expect(result.received).toEqual(new Uint8Array([...data, ...data.subarray(0, 100), ...data.subarray(0, 100)]))
+    expect(result.senderEvents).toEqual([
+      SenderEvent.FileRefused,
+      SenderEvent.FileComplete,
+      SenderEvent.FileRefused,
+      SenderEvent.FileComplete,
+      SenderEvent.FileComplete,
+      SenderEvent.SessionComplete
+    ])
+    expect(result.receiverEvents.filter(e => e === ReceiverEvent.FileStart)).toHaveLength(3)
+    expect(sender.getFreeSpace()).toBe(800)
+    expect(sender.getFileIndex()).toBe(4)
+  })
+
+  it('should not refuse files when the free space is unknown', () => {
+    const sender = new Sender({ checkFreeSpace: true })
+    const receiver = new Receiver()
+    query(sender, receiver)
+
+    sender.startFile('huge.bin', 5 * 1024 * 1024 * 1024)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+})
+
+describe('Remote errors', () => {
+  it('should stop the sender with RemoteFileError when the receiver reports ZFERR', () => {
+    const sender = new Sender({ subpacketsPerAck: 1 })
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.startFile('data.bin', 20000)
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    const request = sender.pollFile()
+    expect(request).not.toBeNull()
+    sender.feedFile(makeData(request?.len ?? 0))
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.drainFile()
+
+    // Storing the data failed
+    receiver.reportFileError()
+    const zferr = receiver.drainOutgoing()
+    expect(readHexHeader(zferr).frame).toBe(Frame.ZFERR)
+
+    expect(() => sender.feedIncoming(zferr)).toThrow(RemoteFileError)
+    expect(sender.pollFile()).toBeNull()
+    expect(sender.drainOutgoing().length).toBe(0)
+    expect(() => sender.startFile('next.bin', 10)).toThrow(UnsupportedError)
+  })
+
+  it('should close the session with ZFIN after ZABORT', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+    sender.sendFiles([{ name: 'a.bin', size: 100 }, { name: 'b.bin', size: 100 }])
+    sender.drainOutgoing()
+
+    expect(() => sender.feedIncoming(new Header(Encoding.ZHEX, Frame.ZABORT).encode())).toThrow(RemoteAbortError)
+    expect(readHexHeader(sender.drainOutgoing()).frame).toBe(Frame.ZFIN)
+
+    sender.feedIncoming(new Header(Encoding.ZHEX, Frame.ZFIN).encode())
+    expect(sender.pollEvent()).toBe(SenderEvent.SessionComplete)
+  })
+
+  it('should throw RemoteFileError in the receiver when the sender reports ZFERR', () => {
+    const receiver = new Receiver()
+    receiver.drainOutgoing()
+    expect(() => receiver.feedIncoming(new Header(Encoding.ZHEX, Frame.ZFERR).encode())).toThrow(RemoteFileError)
+    expect(() => receiver.reportFileError()).toThrow(UnsupportedError)
+  })
+})
+
+describe('Messages', () => {
+  it('should deliver a message between files', () => {
+    const sender = new Sender()
+    const receiver = new Receiver()
+    handshake(sender, receiver)
+
+    sender.sendMessage('file exists, renamed to data.bin.1')
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Message)
+    expect(receiver.getMessage()).toBe('file exists, renamed to data.bin.1')
+    expect(receiver.drainOutgoing().length).toBe(0)
+
+    sender.startFile('data.bin', 100)
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.FileStart)
+  })
+
+  it('should deliver a message during a transfer without disturbing it', () => {
+    const sender = new Sender({ subpacketSize: 1024, subpacketsPerAck: 1 })
+    const receiver = new Receiver()
+    const data = makeData(5000)
+    handshake(sender, receiver)
+    sender.startFile('data.bin', data.length)
+    sender.finishSession()
+    receiver.feedIncoming(sender.drainOutgoing())
+    receiver.pollEvent()
+    receiver.acceptFile()
+    sender.feedIncoming(receiver.drainOutgoing())
+
+    expect(() => sender.sendMessage('too early')).toThrow(UnsupportedError)
+    sender.feedFile(data.subarray(0, 1024))
+    receiver.feedIncoming(sender.drainOutgoing())
+    const first = receiver.drainFile()
+    const zack = receiver.drainOutgoing()
+
+    // The sender is waiting for the ZACK of the first subpacket
+    sender.sendMessage('halfway')
+    receiver.feedIncoming(sender.drainOutgoing())
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Message)
+    expect(receiver.getMessage()).toBe('halfway')
+    sender.feedIncoming(zack)
+
+    const result = pump(sender, receiver, data)
+    expect(new Uint8Array([...first, ...result.received])).toEqual(data)
+    expect(result.senderEvents).toEqual([SenderEvent.FileComplete, SenderEvent.SessionComplete])
+  })
+
+  it('should limit the message length', () => {
+    const sender = new Sender()
+    handshake(sender, new Receiver())
+    expect(() => sender.sendMessage('x'.repeat(9000))).toThrow(UnsupportedError)
+    sender.sendMessage('x'.repeat(SUBPACKET_MAX_SIZE - 1))
+  })
+
+  it('should drop a message too long to read', () => {
+    const receiver = new Receiver()
+    receiver.drainOutgoing()
+
+    receiver.feedIncoming(binaryFrame(Frame.ZSTDERR, new TextEncoder().encode('x'.repeat(9000) + '\0')))
+    expect(receiver.pollEvent()).toBeNull()
+    expect(receiver.drainOutgoing().length).toBe(0)
+
+    receiver.feedIncoming(binaryFrame(Frame.ZSTDERR, new TextEncoder().encode('short\0')))
+    expect(receiver.pollEvent()).toBe(ReceiverEvent.Message)
+    expect(receiver.getMessage()).toBe('short')
+  })
+})
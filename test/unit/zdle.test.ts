@@ -0,0 +1,39 @@
+/**
+ * Tests for ZDLE escape tables.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ZDLE_TABLE, UNZDLE_TABLE, createEscapeTable, escapeByte } from '../../src/lib/zdle.js'
+
+describe('createEscapeTable', () => {
+  it('should match ZDLE_TABLE without options', () => {
+    expect(createEscapeTable(false, false)).toEqual(ZDLE_TABLE)
+  })
+
+  it('should escape all 7-bit control characters with ESCCTL', () => {
+    const table = createEscapeTable(true, false)
+    for (let byte = 0; byte < 0x20; byte++) {
+      expect(escapeByte(byte, table).needsPrefix).toBe(true)
+    }
+    expect(escapeByte(0x7f, table).escaped).toBe(0x6c)
+    expect(escapeByte(0x20, table).needsPrefix).toBe(false)
+    expect(escapeByte(0x81, table).needsPrefix).toBe(false)
+  })
+
+  it('should escape high-bit control characters with ESC8', () => {
+    const table = createEscapeTable(false, true)
+    for (let byte = 0x80; byte < 0xa0; byte++) {
+      expect(escapeByte(byte, table).needsPrefix).toBe(true)
+    }
+    expect(escapeByte(0xff, table).escaped).toBe(0x6d)
+    expect(escapeByte(0x01, table).needsPrefix).toBe(false)
+  })
+
+  it('should round-trip every escaped byte through UNZDLE_TABLE', () => {
+    const table = createEscapeTable(true, true)
+    for (let byte = 0; byte < 0x100; byte++) {
+      const { escaped, needsPrefix } = escapeByte(byte, table)
+      expect(needsPrefix ? UNZDLE_TABLE[escaped] : escaped).toBe(byte)
+    }
+  })
+})